@@ -0,0 +1,88 @@
+/*
+ * Mock SCIM server: answers requests under /scim/v2 by relaying them to the
+ * SCIM Magic Mapper window that started the facade. That window translates
+ * them through the application's mappings and calls the upstream API.
+ */
+
+const SCIM_BASE_PATH = '/scim/v2';
+const SCIM_ERROR_SCHEMA = 'urn:ietf:params:scim:api:messages:2.0:Error';
+const RELAY_TIMEOUT_MS = 30000;
+
+// Window answering SCIM requests
+let handlerClientId = null;
+
+self.addEventListener('install', () => self.skipWaiting());
+
+self.addEventListener('activate', (event) => event.waitUntil(self.clients.claim()));
+
+self.addEventListener('message', (event) => {
+  const type = event.data && event.data.type;
+  if (type === 'scim-facade-start') {
+    handlerClientId = event.source.id;
+  } else if (type === 'scim-facade-stop' && event.source.id === handlerClientId) {
+    handlerClientId = null;
+  }
+});
+
+const scimResponse = (status, body, headers = {}) => new Response(
+  body === undefined ? null : JSON.stringify(body, null, 2),
+  { status, headers: { 'Content-Type': 'application/scim+json', ...headers } }
+);
+
+const scimError = (status, detail, scimType) => scimResponse(status, {
+  schemas: [SCIM_ERROR_SCHEMA],
+  status: String(status),
+  ...(scimType ? { scimType } : {}),
+  detail
+});
+
+const relay = async (request) => {
+  const client = handlerClientId ? await self.clients.get(handlerClientId) : null;
+  if (!client) {
+    return scimError(503, 'No application is serving SCIM requests. Start the mock SCIM server in SCIM Magic Mapper.');
+  }
+
+  const url = new URL(request.url);
+  const text = await request.text();
+  let body;
+  if (text) {
+    try {
+      body = JSON.parse(text);
+    } catch {
+      return scimError(400, 'Request body is not valid JSON', 'invalidSyntax');
+    }
+  }
+
+  const channel = new MessageChannel();
+  const reply = new Promise((resolve) => {
+    const timer = setTimeout(() => resolve(null), RELAY_TIMEOUT_MS);
+    channel.port1.onmessage = (event) => {
+      clearTimeout(timer);
+      resolve(event.data);
+    };
+  });
+
+  client.postMessage({
+    type: 'scim-request',
+    request: {
+      method: request.method,
+      path: url.pathname.slice(SCIM_BASE_PATH.length) || '/',
+      query: Object.fromEntries(url.searchParams),
+      body
+    }
+  }, [channel.port2]);
+
+  const response = await reply;
+  if (!response) {
+    return scimError(504, 'The application did not answer in time');
+  }
+  return scimResponse(response.status, response.body, response.headers);
+};
+
+self.addEventListener('fetch', (event) => {
+  const url = new URL(event.request.url);
+  if (url.origin === self.location.origin
+    && (url.pathname === SCIM_BASE_PATH || url.pathname.startsWith(`${SCIM_BASE_PATH}/`))) {
+    event.respondWith(relay(event.request));
+  }
+});
@@ -9,18 +9,30 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Separator } from "@/components/ui/separator";
 import { toast } from "sonner";
 import { ArrowRight, Check, Database, Key, Lock, RefreshCw } from "lucide-react";
-import { apiService, APIConfig } from '@/utils/apiService';
+import {
+  apiService,
+  APIConfig,
+  ApiKeyPlacement,
+  DEFAULT_API_KEY_HEADER,
+  DEFAULT_API_KEY_QUERY_PARAM,
+  OAuthClientAuthMethod
+} from '@/utils/apiService';
+import { MappingItem } from '@/models/ApplicationConfig';
+import ConnectorProfileEditor from './ConnectorProfileEditor';
+import StaticHeadersEditor from './StaticHeadersEditor';
 
 interface APIConfigFormProps {
   onConfigSave: (config: APIConfig) => void;
   initialConfig?: APIConfig;
   applicationId?: string;
+  currentMappings?: MappingItem[];
 }
 
 const APIConfigForm: React.FC<APIConfigFormProps> = ({ 
   onConfigSave, 
   initialConfig,
-  applicationId 
+  applicationId,
+  currentMappings
 }) => {
   const [config, setConfig] = useState<APIConfig>({
     name: '',
@@ -49,17 +61,17 @@ const APIConfigForm: React.FC<APIConfigFormProps> = ({
     setConfig(prev => ({ ...prev, [name]: value }));
   };
   
-  const handleAuthTypeChange = (value: 'none' | 'basic' | 'bearer' | 'custom' | 'apiKey' | 'oauth') => {
+  const handleAuthTypeChange = (value: APIConfig['authType']) => {
     setConfig(prev => ({ ...prev, authType: value }));
   };
   
-  const handleTestConnection = async () => {
-    // Validate form first
+  // Check required fields, reporting the first problem found
+  const validateConfig = (): boolean => {
     if (!config.name || !config.baseUrl) {
       toast.error('Missing required fields', {
         description: 'Please fill in all required fields.',
       });
-      return;
+      return false;
     }
     
     // Additional validation based on auth type
@@ -67,16 +79,42 @@ const APIConfigForm: React.FC<APIConfigFormProps> = ({
       toast.error('API Key required', {
         description: 'Please enter an API Key for API Key authentication.',
       });
-      return;
+      return false;
     } else if (config.authType === 'basic' && (!config.username || !config.password)) {
       toast.error('Credentials required', {
         description: 'Please enter both username and password for Basic authentication.',
       });
-      return;
+      return false;
+    } else if (config.authType === 'bearer' && !config.token) {
+      toast.error('Token required', {
+        description: 'Please enter a token for Bearer authentication.',
+      });
+      return false;
+    } else if (config.authType === 'custom' && (!config.customHeaderName || !config.customHeaderValue)) {
+      toast.error('Header details required', {
+        description: 'Please enter both the header name and value for custom header authentication.',
+      });
+      return false;
     } else if (config.authType === 'oauth' && (!config.tokenUrl || !config.clientId || !config.clientSecret)) {
       toast.error('OAuth details required', {
         description: 'Please enter all OAuth configuration details.',
       });
+      return false;
+    }
+    
+    const incompleteHeader = (config.extraHeaders || []).find(header => !header.name.trim() && header.value);
+    if (incompleteHeader) {
+      toast.error('Header name required', {
+        description: 'Every extra header with a value needs a name.',
+      });
+      return false;
+    }
+    
+    return true;
+  };
+  
+  const handleTestConnection = async () => {
+    if (!validateConfig()) {
       return;
     }
     
@@ -109,29 +147,7 @@ const APIConfigForm: React.FC<APIConfigFormProps> = ({
   };
   
   const handleSave = () => {
-    // Validate form
-    if (!config.name || !config.baseUrl) {
-      toast.error('Missing required fields', {
-        description: 'Please fill in all required fields.',
-      });
-      return;
-    }
-    
-    // Additional validation based on auth type
-    if (config.authType === 'apiKey' && !config.apiKey) {
-      toast.error('API Key required', {
-        description: 'Please enter an API Key for API Key authentication.',
-      });
-      return;
-    } else if (config.authType === 'basic' && (!config.username || !config.password)) {
-      toast.error('Credentials required', {
-        description: 'Please enter both username and password for Basic authentication.',
-      });
-      return;
-    } else if (config.authType === 'oauth' && (!config.tokenUrl || !config.clientId || !config.clientSecret)) {
-      toast.error('OAuth details required', {
-        description: 'Please enter all OAuth configuration details.',
-      });
+    if (!validateConfig()) {
       return;
     }
     
@@ -178,13 +194,22 @@ const APIConfigForm: React.FC<APIConfigFormProps> = ({
         
         <div className="space-y-2">
           <Label>Authentication</Label>
-          <Tabs defaultValue={config.authType} onValueChange={handleAuthTypeChange} className="w-full">
-            <TabsList className="grid grid-cols-3 mb-4">
+          <Tabs value={config.authType} onValueChange={handleAuthTypeChange} className="w-full">
+            <TabsList className="grid grid-cols-3 md:grid-cols-6 h-auto mb-4">
+              <TabsTrigger value="none">None</TabsTrigger>
               <TabsTrigger value="apiKey">API Key</TabsTrigger>
               <TabsTrigger value="basic">Basic Auth</TabsTrigger>
+              <TabsTrigger value="bearer">Bearer</TabsTrigger>
+              <TabsTrigger value="custom">Header</TabsTrigger>
               <TabsTrigger value="oauth">OAuth 2.0</TabsTrigger>
             </TabsList>
             
+            <TabsContent value="none">
+              <p className="text-sm text-muted-foreground">
+                Requests are sent without credentials. Extra headers below are still included.
+              </p>
+            </TabsContent>
+            
             <TabsContent value="apiKey" className="space-y-4">
               <div className="space-y-2">
                 <Label htmlFor="apiKey" className="flex items-center gap-1">
@@ -201,6 +226,36 @@ const APIConfigForm: React.FC<APIConfigFormProps> = ({
                   className="font-mono"
                 />
               </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="apiKeyPlacement">Send As</Label>
+                  <Select
+                    value={config.apiKeyPlacement || 'header'}
+                    onValueChange={(value: ApiKeyPlacement) => setConfig(prev => ({ ...prev, apiKeyPlacement: value }))}
+                  >
+                    <SelectTrigger id="apiKeyPlacement">
+                      <SelectValue placeholder="Select placement" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="header">Header</SelectItem>
+                      <SelectItem value="query">Query parameter</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="apiKeyName">
+                    {config.apiKeyPlacement === 'query' ? 'Parameter Name' : 'Header Name'}
+                  </Label>
+                  <Input 
+                    id="apiKeyName"
+                    name="apiKeyName"
+                    placeholder={config.apiKeyPlacement === 'query' ? DEFAULT_API_KEY_QUERY_PARAM : DEFAULT_API_KEY_HEADER}
+                    value={config.apiKeyName || ''}
+                    onChange={handleChange}
+                    className="font-mono"
+                  />
+                </div>
+              </div>
             </TabsContent>
             
             <TabsContent value="basic" className="space-y-4">
@@ -229,6 +284,55 @@ const APIConfigForm: React.FC<APIConfigFormProps> = ({
               </div>
             </TabsContent>
             
+            <TabsContent value="bearer" className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="token" className="flex items-center gap-1">
+                  <Key className="h-3.5 w-3.5" />
+                  <span>Token</span>
+                </Label>
+                <Input 
+                  id="token"
+                  name="token"
+                  type="password"
+                  placeholder="eyJhbGciOi..."
+                  value={config.token || ''}
+                  onChange={handleChange}
+                  className="font-mono"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Sent as <code>Authorization: Bearer &lt;token&gt;</code>.
+                </p>
+              </div>
+            </TabsContent>
+            
+            <TabsContent value="custom" className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="customHeaderName">Header Name</Label>
+                  <Input 
+                    id="customHeaderName"
+                    name="customHeaderName"
+                    placeholder="X-Auth-Token"
+                    value={config.customHeaderName || ''}
+                    onChange={handleChange}
+                    className="font-mono"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="customHeaderValue">Header Value</Label>
+                  <Input 
+                    id="customHeaderValue"
+                    name="customHeaderValue"
+                    type="password"
+                    placeholder="Header value"
+                    value={config.customHeaderValue || ''}
+                    onChange={handleChange}
+                    className="font-mono"
+                  />
+                </div>
+              </div>
+            </TabsContent>
+            
             <TabsContent value="oauth" className="space-y-4">
               <div className="space-y-2">
                 <Label htmlFor="tokenUrl">Token URL</Label>
@@ -263,9 +367,62 @@ const APIConfigForm: React.FC<APIConfigFormProps> = ({
                   />
                 </div>
               </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="scopes">Scopes</Label>
+                  <Input 
+                    id="scopes"
+                    name="scopes"
+                    placeholder="users:read users:write"
+                    value={config.scopes || ''}
+                    onChange={handleChange}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="audience">Audience</Label>
+                  <Input 
+                    id="audience"
+                    name="audience"
+                    placeholder="https://api.example.com"
+                    value={config.audience || ''}
+                    onChange={handleChange}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="clientAuthMethod">Client Authentication</Label>
+                <Select
+                  value={config.clientAuthMethod || 'basic'}
+                  onValueChange={(value: OAuthClientAuthMethod) => setConfig(prev => ({ ...prev, clientAuthMethod: value }))}
+                >
+                  <SelectTrigger id="clientAuthMethod">
+                    <SelectValue placeholder="Select client authentication" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="basic">HTTP Basic header (client_secret_basic)</SelectItem>
+                    <SelectItem value="body">Request body (client_secret_post)</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Tokens are fetched with the client-credentials grant, cached until they expire and renewed after a 401.
+                </p>
+              </div>
             </TabsContent>
           </Tabs>
         </div>
+        
+        <StaticHeadersEditor
+          headers={config.extraHeaders || []}
+          onChange={(extraHeaders) => setConfig(prev => ({ ...prev, extraHeaders }))}
+        />
+        
+        <Separator />
+        
+        <ConnectorProfileEditor
+          profile={config.connector}
+          currentMappings={currentMappings}
+          onChange={(connector) => setConfig(prev => ({ ...prev, connector }))}
+        />
       </CardContent>
       <Separator />
       <CardFooter className="flex justify-between pt-6">
@@ -1,110 +1,215 @@
-
 import React, { useState, useEffect } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { History, MoveUpRight, MoveDownRight, Clock, AlertCircle, CheckCircle } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { History, MoveUpRight, Clock, AlertCircle, CheckCircle, Search, Trash2 } from "lucide-react";
+import { formatDistanceToNow } from 'date-fns';
 import RequestDetailDialog from './RequestDetailDialog';
-import { useQuery } from '@tanstack/react-query';
 import { apiService, APIHistory as APIHistoryType } from '@/utils/apiService';
 
-// Define the interfaces that were missing
-interface RequestDetailsItem {
-  method: string;
-  url: string;
-  headers: Record<string, string>;
-  body?: any;
-  status?: number;
-  statusText?: string;
-  responseData?: any;
-  responseHeaders?: Record<string, string>;
-  timestamp: number;
-}
+const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
 
-interface DataItem {
-  id: string;
-  type: 'request' | 'response' | 'error';
-  timestamp: number;
-  details: RequestDetailsItem;
-}
+// Time ranges offered by the filter, in milliseconds
+const TIME_RANGES: { id: string; name: string; duration: number | null }[] = [
+  { id: 'all', name: 'Any time', duration: null },
+  { id: '15m', name: 'Last 15 minutes', duration: 15 * 60 * 1000 },
+  { id: '1h', name: 'Last hour', duration: 60 * 60 * 1000 },
+  { id: '24h', name: 'Last 24 hours', duration: 24 * 60 * 60 * 1000 },
+];
+
+type HistoryTab = 'all' | 'requests' | 'errors';
 
 interface APIHistoryProps {
   applicationId: string;
 }
 
 const APIHistory: React.FC<APIHistoryProps> = ({ applicationId }) => {
-  const [selectedItem, setSelectedItem] = useState<DataItem | null>(null);
+  const [selectedItem, setSelectedItem] = useState<APIHistoryType | null>(null);
   const [apiHistoryData, setApiHistoryData] = useState<APIHistoryType[]>([]);
-  
-  // Fetch history data from the apiService
+  const [activeTab, setActiveTab] = useState<HistoryTab>('all');
+  const [search, setSearch] = useState('');
+  const [method, setMethod] = useState('all');
+  const [timeRange, setTimeRange] = useState('all');
+
+  // Keep the list in sync with requests made anywhere in the app
   useEffect(() => {
-    const historyData = apiService.getHistory(applicationId);
-    setApiHistoryData(historyData);
+    const refresh = () => setApiHistoryData([...apiService.getHistory(applicationId)]);
+    refresh();
+    return apiService.subscribeToHistory(refresh);
   }, [applicationId]);
 
-  // Create a mapping function to convert between the DataItem and APIHistoryType
-  const mapToAPIHistory = (item: DataItem): APIHistoryType => {
-    return {
-      timestamp: item.details.timestamp,
-      method: item.details.method,
-      endpoint: '', // Required property for APIHistory
-      baseUrl: item.details.url,
-      status: item.details.status || 0,
-      duration: 0, // Required property for APIHistory
-      success: item.details.status ? item.details.status >= 200 && item.details.status < 300 : false, // Required property for APIHistory
-      requestData: item.details.body,
-      responseData: item.details.responseData,
-      requestHeaders: item.details.headers,
-      responseHeaders: item.details.responseHeaders || {},
-      applicationId: applicationId
-    };
+  const filterHistory = (tab: HistoryTab): APIHistoryType[] => {
+    const query = search.trim().toLowerCase();
+    const range = TIME_RANGES.find(item => item.id === timeRange)?.duration;
+    const since = range ? Date.now() - range : 0;
+
+    return apiHistoryData.filter(item => {
+      if (tab === 'requests' && !item.success) return false;
+      if (tab === 'errors' && item.success) return false;
+      if (method !== 'all' && item.method.toUpperCase() !== method) return false;
+      if (item.timestamp < since) return false;
+      if (query && !item.endpoint.toLowerCase().includes(query) && !String(item.status).includes(query)) return false;
+      return true;
+    });
+  };
+
+  const renderEmpty = (tab: HistoryTab) => {
+    if (apiHistoryData.length > 0) {
+      return (
+        <div className="text-center py-8 text-muted-foreground">
+          <Search className="h-12 w-12 mx-auto mb-2 opacity-20" />
+          <p>No requests match the current filters.</p>
+        </div>
+      );
+    }
+    if (tab === 'errors') {
+      return (
+        <div className="text-center py-8 text-muted-foreground">
+          <AlertCircle className="h-12 w-12 mx-auto mb-2 opacity-20" />
+          <p>No errors found.</p>
+        </div>
+      );
+    }
+    if (tab === 'requests') {
+      return (
+        <div className="text-center py-8 text-muted-foreground">
+          <MoveUpRight className="h-12 w-12 mx-auto mb-2 opacity-20" />
+          <p>No requests found.</p>
+        </div>
+      );
+    }
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        <History className="h-12 w-12 mx-auto mb-2 opacity-20" />
+        <p>No requests have been made yet.</p>
+        <p className="text-sm">API requests will appear here once you start testing.</p>
+      </div>
+    );
   };
-  
-  // In a real implementation, we would fetch history from a service or context
-  // For now, just display a placeholder
+
+  const renderList = (tab: HistoryTab) => {
+    const items = filterHistory(tab);
+    if (items.length === 0) {
+      return renderEmpty(tab);
+    }
+
+    return (
+      <ScrollArea className="h-[420px] pr-2">
+        <div className="space-y-2">
+          {items.map((item, index) => (
+            <button
+              key={`${item.timestamp}-${index}`}
+              type="button"
+              onClick={() => setSelectedItem(item)}
+              className="w-full text-left flex items-center gap-3 rounded-md border border-border p-3 hover:bg-muted/50 transition-colors"
+            >
+              {item.success ? (
+                <CheckCircle className="h-4 w-4 flex-shrink-0 text-green-500" />
+              ) : (
+                <AlertCircle className="h-4 w-4 flex-shrink-0 text-destructive" />
+              )}
+              <Badge variant="outline" className="font-mono text-xs w-16 justify-center">
+                {item.method}
+              </Badge>
+              <span className="flex-1 truncate font-mono text-xs">{item.endpoint || '/'}</span>
+              <span className={`text-xs font-medium ${item.success ? 'text-green-600' : 'text-destructive'}`}>
+                {item.status || 'ERR'}
+              </span>
+              <span className="hidden sm:flex items-center gap-1 text-xs text-muted-foreground w-20 justify-end">
+                <Clock className="h-3 w-3" />
+                {Math.round(item.duration)}ms
+              </span>
+              <span className="hidden md:block text-xs text-muted-foreground w-28 text-right">
+                {formatDistanceToNow(new Date(item.timestamp), { addSuffix: true })}
+              </span>
+            </button>
+          ))}
+        </div>
+      </ScrollArea>
+    );
+  };
+
   return (
     <Card>
       <CardHeader>
-        <CardTitle>API Request History</CardTitle>
+        <CardTitle className="flex items-center justify-between">
+          <span>API Request History</span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => apiService.clearHistory(applicationId)}
+            disabled={apiHistoryData.length === 0}
+          >
+            <Trash2 className="h-3.5 w-3.5 mr-1" />
+            Clear
+          </Button>
+        </CardTitle>
         <CardDescription>View your recent API requests and responses</CardDescription>
       </CardHeader>
-      <CardContent>
-        <Tabs defaultValue="all">
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-[2fr,1fr,1fr] gap-2">
+          <div className="relative">
+            <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search endpoint or status"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-9"
+            />
+          </div>
+          <Select value={method} onValueChange={setMethod}>
+            <SelectTrigger>
+              <SelectValue placeholder="Method" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All methods</SelectItem>
+              {HTTP_METHODS.map(item => (
+                <SelectItem key={item} value={item}>{item}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={timeRange} onValueChange={setTimeRange}>
+            <SelectTrigger>
+              <SelectValue placeholder="Time range" />
+            </SelectTrigger>
+            <SelectContent>
+              {TIME_RANGES.map(item => (
+                <SelectItem key={item.id} value={item.id}>{item.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as HistoryTab)}>
           <TabsList className="grid w-full grid-cols-3">
-            <TabsTrigger value="all">All</TabsTrigger>
-            <TabsTrigger value="requests">Requests</TabsTrigger>
-            <TabsTrigger value="errors">Errors</TabsTrigger>
+            <TabsTrigger value="all">All ({filterHistory('all').length})</TabsTrigger>
+            <TabsTrigger value="requests">Requests ({filterHistory('requests').length})</TabsTrigger>
+            <TabsTrigger value="errors">Errors ({filterHistory('errors').length})</TabsTrigger>
           </TabsList>
-          
+
           <TabsContent value="all" className="space-y-4">
-            <div className="text-center py-8 text-muted-foreground">
-              <History className="h-12 w-12 mx-auto mb-2 opacity-20" />
-              <p>No requests have been made yet.</p>
-              <p className="text-sm">API requests will appear here once you start testing.</p>
-            </div>
+            {renderList('all')}
           </TabsContent>
-          
+
           <TabsContent value="requests" className="space-y-4">
-            <div className="text-center py-8 text-muted-foreground">
-              <MoveUpRight className="h-12 w-12 mx-auto mb-2 opacity-20" />
-              <p>No requests found.</p>
-            </div>
+            {renderList('requests')}
           </TabsContent>
-          
+
           <TabsContent value="errors" className="space-y-4">
-            <div className="text-center py-8 text-muted-foreground">
-              <AlertCircle className="h-12 w-12 mx-auto mb-2 opacity-20" />
-              <p>No errors found.</p>
-            </div>
+            {renderList('errors')}
           </TabsContent>
         </Tabs>
       </CardContent>
-      
+
       {selectedItem && (
-        <RequestDetailDialog 
+        <RequestDetailDialog
           open={!!selectedItem}
           onOpenChange={() => setSelectedItem(null)}
-          historyItem={mapToAPIHistory(selectedItem)}
+          historyItem={selectedItem}
         />
       )}
     </Card>
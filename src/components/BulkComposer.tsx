@@ -0,0 +1,146 @@
+import React from 'react';
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Plus } from "lucide-react";
+import { toast } from "sonner";
+import { BulkOperation } from '@/utils/scimBulk';
+import { PATCH_OP_SCHEMA } from '@/utils/scimPatch';
+import { SCIM_SCHEMA_URNS } from '@/utils/scimUtils';
+
+interface BulkComposerProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Why the request cannot be sent, if it cannot
+  error?: string;
+  operationCount?: number;
+}
+
+interface OperationTemplate {
+  label: string;
+  // Builds the operation from the ones already in the request
+  build: (operations: BulkOperation[]) => BulkOperation;
+}
+
+const nextBulkId = (prefix: string, operations: BulkOperation[]): string => {
+  const used = new Set(operations.map(operation => operation.bulkId));
+  let index = 1;
+  while (used.has(`${prefix}${index}`)) {
+    index++;
+  }
+  return `${prefix}${index}`;
+};
+
+// The most recent bulkId created at the given path, so new operations can refer to it
+const lastBulkId = (path: string, operations: BulkOperation[]): string | undefined => {
+  return [...operations].reverse().find(operation => operation.method === 'POST' && operation.path === path)?.bulkId;
+};
+
+// Item path of the most recently created resource, or a placeholder for an existing one
+const itemPath = (path: string, operations: BulkOperation[]): string => {
+  const bulkId = lastBulkId(path, operations);
+  return `${path}/${bulkId ? `bulkId:${bulkId}` : '{id}'}`;
+};
+
+const OPERATION_TEMPLATES: OperationTemplate[] = [
+  {
+    label: 'Create user',
+    build: operations => {
+      const bulkId = nextBulkId('user', operations);
+      return {
+        method: 'POST',
+        path: '/Users',
+        bulkId,
+        data: { schemas: [SCIM_SCHEMA_URNS.User], userName: `${bulkId}@example.com`, active: true }
+      };
+    }
+  },
+  {
+    label: 'Create group',
+    build: operations => {
+      const member = lastBulkId('/Users', operations);
+      return {
+        method: 'POST',
+        path: '/Groups',
+        bulkId: nextBulkId('group', operations),
+        data: { schemas: [SCIM_SCHEMA_URNS.Group], displayName: 'New group', members: member ? [{ value: `bulkId:${member}` }] : [] }
+      };
+    }
+  },
+  {
+    label: 'Patch user',
+    build: operations => ({
+      method: 'PATCH',
+      path: itemPath('/Users', operations),
+      data: { schemas: [PATCH_OP_SCHEMA], Operations: [{ op: 'replace', path: 'active', value: false }] }
+    })
+  },
+  {
+    label: 'Replace group',
+    build: operations => ({
+      method: 'PUT',
+      path: itemPath('/Groups', operations),
+      data: { schemas: [SCIM_SCHEMA_URNS.Group], displayName: 'Renamed group', members: [] }
+    })
+  },
+  {
+    label: 'Delete user',
+    build: () => ({ method: 'DELETE', path: '/Users/{id}' })
+  }
+];
+
+const BulkComposer: React.FC<BulkComposerProps> = ({ value, onChange, error, operationCount }) => {
+  const addOperation = (template: OperationTemplate) => {
+    let request: { Operations?: BulkOperation[] };
+    try {
+      request = JSON.parse(value);
+    } catch {
+      toast.error('Invalid JSON', {
+        description: 'Fix the bulk request before adding operations to it.',
+      });
+      return;
+    }
+    const operations = Array.isArray(request?.Operations) ? request.Operations : [];
+    onChange(JSON.stringify({ ...request, Operations: [...operations, template.build(operations)] }, null, 2));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <Label htmlFor="bulkRequest">Bulk Request</Label>
+        <div className="flex flex-wrap gap-1">
+          {OPERATION_TEMPLATES.map(template => (
+            <Button
+              key={template.label}
+              variant="outline"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => addOperation(template)}
+            >
+              <Plus className="h-3 w-3 mr-1" />
+              {template.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+      <Textarea
+        id="bulkRequest"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className={`h-72 font-mono text-xs ${error ? 'border-destructive' : ''}`}
+        spellCheck={false}
+      />
+      {error ? (
+        <p className="text-xs text-destructive">{error}</p>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          {operationCount} operation{operationCount === 1 ? '' : 's'}, run in order through the connector profile's paths
+          and your mappings. Refer to a resource created earlier in the request with <code>bulkId:&lt;id&gt;</code>, in a
+          path or a value such as a group member.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default BulkComposer;
@@ -0,0 +1,57 @@
+import React from 'react';
+import { Badge } from "@/components/ui/badge";
+import { Layers } from "lucide-react";
+import { BulkResponse } from '@/utils/scimBulk';
+
+interface BulkResultsViewProps {
+  response: BulkResponse;
+  // Operations in the request; any beyond the results were skipped by failOnErrors
+  requested: number;
+}
+
+const errorDetail = (response: unknown): string | undefined => {
+  const detail = (response as { detail?: unknown } | undefined)?.detail;
+  return typeof detail === 'string' ? detail : undefined;
+};
+
+const BulkResultsView: React.FC<BulkResultsViewProps> = ({ response, requested }) => {
+  const failed = response.Operations.filter(operation => Number(operation.status) >= 400).length;
+  const skipped = requested - response.Operations.length;
+
+  return (
+    <div className="w-full rounded-md border border-border bg-muted/30 p-3 text-xs space-y-2">
+      <div className="flex items-center gap-2 font-medium">
+        <Layers className="h-3.5 w-3.5 text-primary" />
+        Bulk operations
+        <span className="font-normal text-muted-foreground">
+          {response.Operations.length - failed} succeeded, {failed} failed{skipped > 0 && `, ${skipped} skipped after too many errors`}
+        </span>
+      </div>
+      {response.Operations.map((operation, index) => {
+        const isError = Number(operation.status) >= 400;
+        return (
+          <div key={index} className="flex items-start gap-2">
+            <Badge
+              variant={isError ? 'destructive' : 'outline'}
+              className="font-mono text-xs w-12 justify-center flex-shrink-0"
+            >
+              {operation.status}
+            </Badge>
+            <div className="min-w-0 space-y-0.5">
+              <div className="font-mono">
+                {operation.method}
+                {operation.bulkId && <span className="text-muted-foreground"> bulkId:{operation.bulkId}</span>}
+                {operation.location && <span className="text-muted-foreground"> → {operation.location}</span>}
+              </div>
+              {isError && errorDetail(operation.response) && (
+                <p className="text-destructive break-words">{errorDetail(operation.response)}</p>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default BulkResultsView;
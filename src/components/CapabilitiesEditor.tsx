@@ -0,0 +1,186 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
+import { RotateCcw, Save, ServerCog } from "lucide-react";
+import { AuthenticationScheme, ScimCapabilities } from '@/models/ApplicationConfig';
+import { AUTHENTICATION_SCHEMES, DEFAULT_CAPABILITIES } from '@/utils/scimDiscovery';
+
+interface CapabilitiesEditorProps {
+  initialCapabilities?: ScimCapabilities;
+  onSave: (capabilities: ScimCapabilities) => void;
+}
+
+const FEATURES: { id: 'patch' | 'sort' | 'etag' | 'changePassword'; name: string }[] = [
+  { id: 'patch', name: 'PATCH' },
+  { id: 'sort', name: 'Sorting' },
+  { id: 'etag', name: 'ETags' },
+  { id: 'changePassword', name: 'Password changes' },
+];
+
+const CapabilitiesEditor: React.FC<CapabilitiesEditorProps> = ({ initialCapabilities, onSave }) => {
+  const [capabilities, setCapabilities] = useState<ScimCapabilities>(DEFAULT_CAPABILITIES);
+
+  useEffect(() => {
+    setCapabilities(initialCapabilities || DEFAULT_CAPABILITIES);
+  }, [initialCapabilities]);
+
+  const update = (updates: Partial<ScimCapabilities>) => {
+    setCapabilities(prev => ({ ...prev, ...updates }));
+  };
+
+  const toNumber = (text: string) => Math.max(0, parseInt(text, 10) || 0);
+
+  const isSchemeEnabled = (type: AuthenticationScheme['type']) => {
+    return capabilities.authenticationSchemes.some(scheme => scheme.type === type);
+  };
+
+  const toggleScheme = (type: AuthenticationScheme['type'], enabled: boolean) => {
+    const schemes = enabled
+      ? [...capabilities.authenticationSchemes, { ...AUTHENTICATION_SCHEMES[type] }]
+      : capabilities.authenticationSchemes.filter(scheme => scheme.type !== type);
+    // Keep exactly one primary scheme when there is any
+    const primary = schemes.find(scheme => scheme.primary) || schemes[0];
+    update({ authenticationSchemes: schemes.map(scheme => ({ ...scheme, primary: scheme === primary })) });
+  };
+
+  const setPrimaryScheme = (type: AuthenticationScheme['type']) => {
+    update({
+      authenticationSchemes: capabilities.authenticationSchemes.map(scheme => ({ ...scheme, primary: scheme.type === type }))
+    });
+  };
+
+  return (
+    <Card className="w-full shadow-card animate-scale-in">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ServerCog className="h-5 w-5 text-primary" />
+          <span>Service Provider Capabilities</span>
+        </CardTitle>
+        <CardDescription>
+          Declare what the SCIM endpoint supports. These settings make up the ServiceProviderConfig document.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        <div className="grid grid-cols-2 gap-3">
+          {FEATURES.map(feature => (
+            <label key={feature.id} className="flex items-center gap-2 text-sm">
+              <Switch
+                checked={capabilities[feature.id]}
+                onCheckedChange={(checked) => update({ [feature.id]: checked })}
+              />
+              {feature.name}
+            </label>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 text-sm">
+            <Switch
+              checked={capabilities.filter.supported}
+              onCheckedChange={(checked) => update({ filter: { ...capabilities.filter, supported: checked } })}
+            />
+            Filtering
+          </label>
+          {capabilities.filter.supported && (
+            <div className="space-y-1 pl-11">
+              <Label className="text-xs text-muted-foreground">Maximum results</Label>
+              <Input
+                type="number"
+                min={0}
+                value={capabilities.filter.maxResults}
+                onChange={(e) => update({ filter: { ...capabilities.filter, maxResults: toNumber(e.target.value) } })}
+                className="h-8 text-xs w-40"
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 text-sm">
+            <Switch
+              checked={capabilities.bulk.supported}
+              onCheckedChange={(checked) => update({ bulk: { ...capabilities.bulk, supported: checked } })}
+            />
+            Bulk operations
+          </label>
+          {capabilities.bulk.supported && (
+            <div className="grid grid-cols-2 gap-2 pl-11">
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Maximum operations</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={capabilities.bulk.maxOperations}
+                  onChange={(e) => update({ bulk: { ...capabilities.bulk, maxOperations: toNumber(e.target.value) } })}
+                  className="h-8 text-xs"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Maximum payload size (bytes)</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={capabilities.bulk.maxPayloadSize}
+                  onChange={(e) => update({ bulk: { ...capabilities.bulk, maxPayloadSize: toNumber(e.target.value) } })}
+                  className="h-8 text-xs"
+                />
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-sm">Authentication schemes</Label>
+          {Object.values(AUTHENTICATION_SCHEMES).map(scheme => (
+            <div key={scheme.type} className="flex items-center justify-between gap-2 text-sm">
+              <label className="flex items-center gap-2">
+                <Switch
+                  checked={isSchemeEnabled(scheme.type)}
+                  onCheckedChange={(checked) => toggleScheme(scheme.type, checked)}
+                />
+                {scheme.name}
+              </label>
+              {isSchemeEnabled(scheme.type) && (
+                <Button
+                  variant={capabilities.authenticationSchemes.find(item => item.type === scheme.type)?.primary ? 'secondary' : 'ghost'}
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => setPrimaryScheme(scheme.type)}
+                >
+                  Primary
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-sm">Documentation URL</Label>
+          <Input
+            placeholder="https://example.com/scim/help"
+            value={capabilities.documentationUri || ''}
+            onChange={(e) => update({ documentationUri: e.target.value.trim() || undefined })}
+            className="h-8 text-xs"
+          />
+        </div>
+      </CardContent>
+      <Separator />
+      <CardFooter className="flex justify-between pt-6">
+        <Button variant="outline" onClick={() => setCapabilities(DEFAULT_CAPABILITIES)}>
+          <RotateCcw className="h-4 w-4 mr-2" />
+          Reset
+        </Button>
+        <Button onClick={() => onSave(capabilities)}>
+          <Save className="h-4 w-4 mr-2" />
+          Save Capabilities
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+};
+
+export default CapabilitiesEditor;
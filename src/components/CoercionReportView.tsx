@@ -0,0 +1,43 @@
+import React from 'react';
+import { AlertTriangle, CheckCircle2, ListChecks } from "lucide-react";
+import { CoercionReport } from '@/utils/scimService';
+
+interface CoercionReportViewProps {
+  reports: CoercionReport[];
+}
+
+const CoercionReportView: React.FC<CoercionReportViewProps> = ({ reports }) => {
+  const withIssues = reports.filter(report => report.issues.length > 0);
+
+  return (
+    <div className="w-full rounded-md border border-border bg-muted/30 p-3 text-xs space-y-2">
+      <div className="flex items-center gap-2 font-medium">
+        <ListChecks className="h-3.5 w-3.5 text-primary" />
+        Validation report
+      </div>
+      {withIssues.length === 0 ? (
+        <p className="flex items-center gap-1 text-green-600">
+          <CheckCircle2 className="h-3.5 w-3.5" />
+          {reports.length === 1 ? 'Every value matches its attribute type' : `All ${reports.length} records match their attribute types`}
+        </p>
+      ) : (
+        withIssues.map((report, index) => (
+          <div key={index} className="space-y-0.5">
+            {reports.length > 1 && <div className="font-medium">{report.record}</div>}
+            {report.issues.map((issue, issueIndex) => (
+              <p
+                key={issueIndex}
+                className={`flex items-start gap-1 ${issue.severity === 'error' ? 'text-destructive' : 'text-amber-600'}`}
+              >
+                <AlertTriangle className="h-3.5 w-3.5 flex-shrink-0 mt-0.5" />
+                <span><code>{issue.path}</code> {issue.message}</span>
+              </p>
+            ))}
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
+
+export default CoercionReportView;
@@ -0,0 +1,149 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { AlertCircle, CheckCircle, CircleDashed, MinusCircle, Play, RefreshCw, ShieldCheck } from "lucide-react";
+import { toast } from "sonner";
+import { APIHistory } from '@/utils/apiService';
+import { ComplianceCheckResult, getComplianceChecks, runComplianceSuite } from '@/utils/scimCompliance';
+import { ScimConfig } from '@/utils/scimUtils';
+import RequestDetailDialog from './RequestDetailDialog';
+
+interface ComplianceRunnerProps {
+  isConfigured: boolean;
+  applicationId: string;
+  config: ScimConfig;
+}
+
+const STATUS_ICONS: Record<ComplianceCheckResult['status'], React.ReactNode> = {
+  passed: <CheckCircle className="h-4 w-4 flex-shrink-0 text-green-500" />,
+  failed: <AlertCircle className="h-4 w-4 flex-shrink-0 text-destructive" />,
+  skipped: <MinusCircle className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+};
+
+const ComplianceRunner: React.FC<ComplianceRunnerProps> = ({ isConfigured, applicationId, config }) => {
+  const [results, setResults] = useState<ComplianceCheckResult[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [selectedItem, setSelectedItem] = useState<APIHistory | null>(null);
+  const checks = getComplianceChecks();
+
+  useEffect(() => {
+    setResults([]);
+  }, [applicationId]);
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    setResults([]);
+    try {
+      const finished = await runComplianceSuite(applicationId, config, result => setResults(prev => [...prev, result]));
+      const failed = finished.filter(result => result.status === 'failed').length;
+      if (failed > 0) {
+        toast.error('Compliance checks failed', {
+          description: `${failed} of ${finished.length} checks failed`,
+        });
+      } else {
+        toast.success('Compliance checks passed', {
+          description: `${finished.filter(result => result.status === 'passed').length} checks passed`,
+        });
+      }
+    } catch (error) {
+      toast.error('Compliance run failed', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const count = (status: ComplianceCheckResult['status']) => results.filter(result => result.status === status).length;
+
+  return (
+    <Card className="w-full shadow-card animate-scale-in">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5 text-primary" />
+          <span>SCIM Compliance</span>
+        </CardTitle>
+        <CardDescription>
+          Run the requests Okta and Entra ID validators make against this application's SCIM server. The checks create,
+          change and delete a test user and group through your mappings, so point the API at a sandbox.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <Button onClick={handleRun} disabled={isRunning || !isConfigured}>
+            {isRunning ? <RefreshCw className="h-4 w-4 mr-2 animate-spin" /> : <Play className="h-4 w-4 mr-2" />}
+            Run Checks
+          </Button>
+          {results.length > 0 && (
+            <div className="flex gap-2 text-xs">
+              <Badge variant="outline" className="text-green-600">{count('passed')} passed</Badge>
+              <Badge variant={count('failed') > 0 ? 'destructive' : 'outline'}>{count('failed')} failed</Badge>
+              <Badge variant="outline">{count('skipped')} skipped</Badge>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          {checks.map((check, index) => {
+            const result = results.find(item => item.id === check.id);
+            const isCurrent = isRunning && !result && index === results.length;
+            return (
+              <div key={check.id} className="rounded-md border border-border p-3 space-y-2">
+                <div className="flex items-start gap-3">
+                  {result
+                    ? STATUS_ICONS[result.status]
+                    : isCurrent
+                      ? <RefreshCw className="h-4 w-4 flex-shrink-0 animate-spin text-primary" />
+                      : <CircleDashed className="h-4 w-4 flex-shrink-0 text-muted-foreground" />}
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium">{check.name}</div>
+                    <div className="text-xs text-muted-foreground">{check.description}</div>
+                    {result?.message && (
+                      <p className={`text-xs mt-1 ${result.status === 'failed' ? 'text-destructive' : 'text-muted-foreground'}`}>
+                        {result.message}
+                      </p>
+                    )}
+                  </div>
+                  {result && result.status !== 'skipped' && (
+                    <span className="text-xs text-muted-foreground">{Math.round(result.duration)}ms</span>
+                  )}
+                </div>
+                {result && result.exchanges.length > 0 && (
+                  <div className="pl-7 flex flex-wrap gap-1">
+                    {result.exchanges.map((exchange, exchangeIndex) => (
+                      <button
+                        key={exchangeIndex}
+                        type="button"
+                        onClick={() => setSelectedItem(exchange)}
+                        className="flex items-center gap-1 rounded border border-border px-2 py-0.5 font-mono text-xs hover:bg-muted/50 transition-colors"
+                      >
+                        {exchange.method}
+                        <span className="truncate max-w-64 text-muted-foreground">{exchange.endpoint}</span>
+                        <span className={exchange.success ? 'text-green-600' : 'text-destructive'}>{exchange.status}</span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          Every request and response is also recorded in the History tab, next to the upstream calls it caused.
+        </p>
+      </CardContent>
+
+      {selectedItem && (
+        <RequestDetailDialog
+          open={!!selectedItem}
+          onOpenChange={() => setSelectedItem(null)}
+          historyItem={selectedItem}
+        />
+      )}
+    </Card>
+  );
+};
+
+export default ComplianceRunner;
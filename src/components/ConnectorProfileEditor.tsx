@@ -0,0 +1,181 @@
+import React from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plug, Users } from "lucide-react";
+import { toast } from "sonner";
+import { MappingItem } from "@/models/ApplicationConfig";
+import { BUILT_IN_PROFILES, ConnectorProfile, GENERIC_PROFILE, ResourceEndpoint, UpdateMethod } from "@/models/ConnectorProfile";
+import PaginationConfigEditor from './PaginationConfigEditor';
+
+// Select value for the application's own profile
+const CUSTOM_PROFILE_ID = 'custom';
+
+const UPDATE_METHODS: { id: UpdateMethod; name: string }[] = [
+  { id: 'PUT', name: 'PUT the whole record' },
+  { id: 'PATCH', name: 'PATCH the changed fields' },
+];
+
+interface ConnectorProfileEditorProps {
+  profile?: ConnectorProfile;
+  // The application's saved mappings, offered as the profile's defaults
+  currentMappings?: MappingItem[];
+  onChange: (profile: ConnectorProfile) => void;
+}
+
+const ConnectorProfileEditor: React.FC<ConnectorProfileEditorProps> = ({ profile, currentMappings = [], onChange }) => {
+  const current = profile || GENERIC_PROFILE;
+
+  // Any edit to a built-in profile turns it into the application's own copy
+  const update = (updates: Partial<ConnectorProfile>) => {
+    const base = current.builtIn
+      ? { ...current, id: CUSTOM_PROFILE_ID, builtIn: false, name: `${current.name} (custom)` }
+      : current;
+    onChange({ ...base, ...updates });
+  };
+
+  const handleProfileSelect = (id: string) => {
+    if (id === CUSTOM_PROFILE_ID) {
+      update({});
+      return;
+    }
+    const selected = BUILT_IN_PROFILES.find(item => item.id === id);
+    if (selected) {
+      onChange(selected);
+    }
+  };
+
+  // Clearing every group field removes the group endpoint altogether
+  const updateGroupEndpoint = (updates: Partial<ResourceEndpoint>) => {
+    const groupEndpoint = { resourcePath: '', itemPathTemplate: '', ...current.groupEndpoint, ...updates };
+    const isEmpty = !groupEndpoint.resourcePath && !groupEndpoint.itemPathTemplate && !groupEndpoint.listEnvelopeKey;
+    update({ groupEndpoint: isEmpty ? undefined : groupEndpoint });
+  };
+
+  const handleUseCurrentMappings = () => {
+    update({ defaultMappings: currentMappings });
+    toast.success('Default mappings updated', {
+      description: `${currentMappings.length} mappings will be suggested for new setups using this profile.`,
+    });
+  };
+
+  const textField = (key: 'name' | 'resourcePath' | 'listEnvelopeKey' | 'itemPathTemplate' | 'healthCheckEndpoint', label: string, placeholder: string) => (
+    <div className="space-y-1">
+      <Label htmlFor={`connector-${key}`} className="text-xs">{label}</Label>
+      <Input
+        id={`connector-${key}`}
+        placeholder={placeholder}
+        value={current[key] || ''}
+        onChange={(e) => update({ [key]: e.target.value })}
+        className="h-8 font-mono text-xs"
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label className="flex items-center gap-1">
+          <Plug className="h-3.5 w-3.5" />
+          <span>Connector Profile</span>
+        </Label>
+        <Select value={current.builtIn ? current.id : CUSTOM_PROFILE_ID} onValueChange={handleProfileSelect}>
+          <SelectTrigger>
+            <SelectValue placeholder="Select connector profile" />
+          </SelectTrigger>
+          <SelectContent>
+            {BUILT_IN_PROFILES.map(item => (
+              <SelectItem key={item.id} value={item.id}>{item.name}</SelectItem>
+            ))}
+            <SelectItem value={CUSTOM_PROFILE_ID}>
+              {current.builtIn ? 'Custom profile...' : current.name}
+            </SelectItem>
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          Describes where the API keeps its users. Editing a built-in profile saves a custom copy with this application.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {!current.builtIn && textField('name', 'Profile name', 'My API')}
+        {textField('resourcePath', 'Resource path', '/users')}
+        {textField('itemPathTemplate', 'Single item path', '/users/{id}')}
+        {textField('listEnvelopeKey', 'List envelope key', 'Bare array')}
+        {textField('healthCheckEndpoint', 'Health check endpoint', '/health')}
+        <div className="space-y-1">
+          <Label htmlFor="connector-updateMethod" className="text-xs">SCIM PATCH updates</Label>
+          <Select
+            value={current.updateMethod || 'PUT'}
+            onValueChange={(value: UpdateMethod) => update({ updateMethod: value === 'PUT' ? undefined : value })}
+          >
+            <SelectTrigger id="connector-updateMethod" className="h-8 text-xs">
+              <SelectValue placeholder="Update method" />
+            </SelectTrigger>
+            <SelectContent>
+              {UPDATE_METHODS.map(method => (
+                <SelectItem key={method.id} value={method.id}>{method.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label className="flex items-center gap-1 text-xs">
+          <Users className="h-3.5 w-3.5" />
+          <span>Groups</span>
+        </Label>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          {(['resourcePath', 'itemPathTemplate', 'listEnvelopeKey'] as const).map(key => (
+            <Input
+              key={key}
+              aria-label={`Group ${key}`}
+              placeholder={{ resourcePath: '/groups', itemPathTemplate: '/groups/{id}', listEnvelopeKey: 'Bare array' }[key]}
+              value={current.groupEndpoint?.[key] || ''}
+              onChange={(e) => updateGroupEndpoint({ [key]: e.target.value })}
+              className="h-8 font-mono text-xs"
+            />
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Resource path, single item path and list envelope key of the API's groups. Leave empty if it has none.
+        </p>
+      </div>
+
+      <PaginationConfigEditor
+        pagination={current.pagination}
+        onChange={(pagination) => update({ pagination })}
+      />
+
+      <div className="flex items-center justify-between gap-2 text-xs">
+        <span className="text-muted-foreground">
+          {current.defaultMappings.length} default mapping{current.defaultMappings.length === 1 ? '' : 's'}
+        </span>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7"
+            onClick={handleUseCurrentMappings}
+            disabled={currentMappings.length === 0}
+          >
+            Use current mappings
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7"
+            onClick={() => update({ defaultMappings: [] })}
+            disabled={current.defaultMappings.length === 0}
+          >
+            Clear
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConnectorProfileEditor;
@@ -0,0 +1,102 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Check, Copy, Download, FileJson } from "lucide-react";
+import { toast } from "sonner";
+import { ScimConfig, ScimUtils } from '@/utils/scimUtils';
+import { buildDiscoveryDocuments, DISCOVERY_RESOURCES, DiscoveryResource } from '@/utils/scimDiscovery';
+import { SCIM_BASE_PATH } from '@/utils/scimService';
+
+interface DiscoveryDocumentsProps {
+  config: ScimConfig;
+  appName: string;
+}
+
+const downloadJson = (data: unknown, fileName: string) => {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/scim+json' });
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+
+  URL.revokeObjectURL(url);
+};
+
+const DiscoveryDocuments: React.FC<DiscoveryDocumentsProps> = ({ config, appName }) => {
+  const [copied, setCopied] = useState<DiscoveryResource | null>(null);
+  const documents = useMemo(() => buildDiscoveryDocuments(new ScimUtils(config, false)), [config]);
+  const slug = appName.replace(/\s+/g, '-').toLowerCase();
+
+  const handleCopy = (resource: DiscoveryResource) => {
+    navigator.clipboard.writeText(JSON.stringify(documents[resource], null, 2))
+      .then(() => {
+        setCopied(resource);
+        setTimeout(() => setCopied(null), 2000);
+      })
+      .catch(() => toast.error('Failed to copy to clipboard'));
+  };
+
+  return (
+    <Card className="w-full shadow-card animate-scale-in">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <FileJson className="h-5 w-5 text-primary" />
+              <span>Discovery Documents</span>
+            </CardTitle>
+            <CardDescription>
+              What clients read from {SCIM_BASE_PATH}, generated from the mappings, extensions and capabilities.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => downloadJson(documents, `${slug}-scim-discovery.json`)}>
+            <Download className="h-4 w-4 mr-2" />
+            Download All
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="ServiceProviderConfig" className="w-full">
+          <TabsList className="grid w-full grid-cols-3">
+            {DISCOVERY_RESOURCES.map(resource => (
+              <TabsTrigger key={resource} value={resource} className="text-xs">{resource}</TabsTrigger>
+            ))}
+          </TabsList>
+          {DISCOVERY_RESOURCES.map(resource => (
+            <TabsContent key={resource} value={resource} className="space-y-2">
+              <div className="flex items-center justify-between">
+                <code className="text-xs text-muted-foreground">GET {SCIM_BASE_PATH}/{resource}</code>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => handleCopy(resource)}>
+                    {copied === resource ? <Check className="h-3 w-3 mr-1" /> : <Copy className="h-3 w-3 mr-1" />}
+                    Copy
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-7 text-xs"
+                    onClick={() => downloadJson(documents[resource], `${slug}-${resource}.json`)}
+                  >
+                    <Download className="h-3 w-3 mr-1" />
+                    Download
+                  </Button>
+                </div>
+              </div>
+              <div className="bg-muted/30 rounded-md p-4 border border-border overflow-hidden">
+                <ScrollArea className="h-96">
+                  <pre className="text-xs font-mono">{JSON.stringify(documents[resource], null, 2)}</pre>
+                </ScrollArea>
+              </div>
+            </TabsContent>
+          ))}
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DiscoveryDocuments;
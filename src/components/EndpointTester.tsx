@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -6,51 +6,264 @@ import { Input } from "@/components/ui/input";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
 import { Separator } from "@/components/ui/separator";
 import { CheckCircle2, Clock, AlertTriangle, Play, RefreshCw, Search, User, Copy, Check } from "lucide-react";
 import { toast } from "sonner";
 import { apiService } from '@/utils/apiService';
-import { scimUtils } from '@/utils/scimUtils';
+import { ScimConfig, ScimResourceType, ScimUtils } from '@/utils/scimUtils';
+import { formatFilter, validateFilter } from '@/utils/scimFilter';
+import { ScimError } from '@/utils/scimError';
+import { appendQueryParams, FilterTranslation } from '@/utils/filterTranslator';
+import {
+  buildCoercionReport,
+  CoercionReport,
+  createResource,
+  getSkippedWriteMappings,
+  listResources,
+  patchResource,
+  PatchResult,
+  replaceResource
+} from '@/utils/scimService';
+import { parsePatchRequest, PATCH_OP_SCHEMA, PatchOperation } from '@/utils/scimPatch';
+import { validateScimResource, ValidationIssue } from '@/utils/scimValidation';
+import { DEFAULT_CAPABILITIES, getDiscoveryDocument, isDiscoveryResource } from '@/utils/scimDiscovery';
+import { BULK_REQUEST_SCHEMA, BulkResponse, parseBulkRequest } from '@/utils/scimBulk';
+import { handleScimRequest } from '@/utils/scimServer';
+import { buildItemPath, getResourceEndpoint, ResourceEndpoint } from '@/models/ConnectorProfile';
+import { PayloadPreset } from '@/models/ApplicationConfig';
+import { useApplications } from '@/contexts/ApplicationContext';
+import PayloadEditor from './PayloadEditor';
+import CoercionReportView from './CoercionReportView';
+import BulkComposer from './BulkComposer';
+import BulkResultsView from './BulkResultsView';
 
 interface EndpointTesterProps {
   isConfigured: boolean;
   applicationId: string;
+  config: ScimConfig;
 }
 
-const EndpointTester: React.FC<EndpointTesterProps> = ({ isConfigured, applicationId }) => {
+// SCIM resource types behind each endpoint of the resource type selector
+const SCIM_RESOURCE_TYPES: Record<string, ScimResourceType> = {
+  Users: 'User',
+  Groups: 'Group'
+};
+
+// Initial SCIM User sent by CREATE and UPDATE
+const sampleUserData = {
+  "schemas": ["urn:ietf:params:scim:schemas:core:2.0:User"],
+  "userName": "john.doe@example.com",
+  "name": {
+    "givenName": "John",
+    "familyName": "Doe"
+  },
+  "emails": [
+    {
+      "value": "john.doe@example.com",
+      "primary": true
+    }
+  ],
+  "active": true,
+  "displayName": "John Doe",
+  "externalId": "12345"
+};
+
+// Initial SCIM Group sent by CREATE and UPDATE
+const sampleGroupData = {
+  "schemas": ["urn:ietf:params:scim:schemas:core:2.0:Group"],
+  "displayName": "Engineering",
+  "externalId": "eng",
+  "members": []
+};
+
+// Initial PatchOp requests sent by PATCH, using value filters the way IdPs do
+const samplePatchRequests: Record<ScimResourceType, unknown> = {
+  User: {
+    "schemas": [PATCH_OP_SCHEMA],
+    "Operations": [
+      { "op": "replace", "path": "displayName", "value": "Johnny Doe" },
+      { "op": "add", "path": "emails[type eq \"work\"].value", "value": "john.doe@work.example.com" }
+    ]
+  },
+  Group: {
+    "schemas": [PATCH_OP_SCHEMA],
+    "Operations": [
+      { "op": "add", "path": "members", "value": [{ "value": "1" }] },
+      { "op": "remove", "path": "members[value eq \"2\"]" }
+    ]
+  }
+};
+
+// Initial BulkRequest: a user, and a group whose member is that user before it has an ID
+const sampleBulkRequest = {
+  "schemas": [BULK_REQUEST_SCHEMA],
+  "failOnErrors": 1,
+  "Operations": [
+    {
+      "method": "POST",
+      "path": "/Users",
+      "bulkId": "jane",
+      "data": {
+        "schemas": ["urn:ietf:params:scim:schemas:core:2.0:User"],
+        "userName": "jane.roe@example.com",
+        "name": { "givenName": "Jane", "familyName": "Roe" },
+        "emails": [{ "value": "jane.roe@example.com", "primary": true }],
+        "active": true
+      }
+    },
+    {
+      "method": "POST",
+      "path": "/Groups",
+      "bulkId": "engineering",
+      "data": {
+        "schemas": ["urn:ietf:params:scim:schemas:core:2.0:Group"],
+        "displayName": "Engineering",
+        "members": [{ "value": "bulkId:jane" }]
+      }
+    }
+  ]
+};
+
+const EndpointTester: React.FC<EndpointTesterProps> = ({ isConfigured, applicationId, config }) => {
   const [operation, setOperation] = useState('get');
-  const [endpoint, setEndpoint] = useState('');
+  // Upstream path typed for each resource type
+  const [endpoints, setEndpoints] = useState<Record<string, string>>({});
   const [resourceType, setResourceType] = useState('Users');
   const [filter, setFilter] = useState('');
+  const [startIndex, setStartIndex] = useState('1');
+  const [count, setCount] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [testResults, setTestResults] = useState<any>(null);
   const [responseTime, setResponseTime] = useState<number | null>(null);
   const [rawData, setRawData] = useState<any>(null);
   const [error, setError] = useState<string | null>(null);
   const [isCopied, setIsCopied] = useState<{[key: string]: boolean}>({});
+  const [filterTranslation, setFilterTranslation] = useState<FilterTranslation | null>(null);
+  const [coercionReports, setCoercionReports] = useState<CoercionReport[] | null>(null);
+  const [payloadTexts, setPayloadTexts] = useState<Record<ScimResourceType, string>>(() => ({
+    User: JSON.stringify(sampleUserData, null, 2),
+    Group: JSON.stringify(sampleGroupData, null, 2)
+  }));
+  const [patchTexts, setPatchTexts] = useState<Record<ScimResourceType, string>>(() => ({
+    User: JSON.stringify(samplePatchRequests.User, null, 2),
+    Group: JSON.stringify(samplePatchRequests.Group, null, 2)
+  }));
+  // What the last PATCH sent upstream
+  const [patchSummary, setPatchSummary] = useState<Pick<PatchResult, 'method' | 'request'> | null>(null);
+  const [bulkText, setBulkText] = useState(() => JSON.stringify(sampleBulkRequest, null, 2));
+  // Per-operation results of the last bulk request
+  const [bulkResults, setBulkResults] = useState<{ response: BulkResponse; requested: number } | null>(null);
+  const [resourceId, setResourceId] = useState('');
+  // IDs of the resources returned by the last GET, offered for UPDATE and DELETE
+  const [listedIds, setListedIds] = useState<string[]>([]);
+  const { getApplication, updateApplication } = useApplications();
+  
+  // Discovery endpoints are answered locally and have no upstream counterpart
+  const isDiscovery = isDiscoveryResource(resourceType);
+  const scimResourceType: ScimResourceType = SCIM_RESOURCE_TYPES[resourceType] || 'User';
+  const endpoint = endpoints[resourceType] || '';
+  const payloadText = payloadTexts[scimResourceType];
+  const patchText = patchTexts[scimResourceType];
+  const allPresets = getApplication(applicationId)?.payloadPresets || [];
+  const capabilities = getApplication(applicationId)?.capabilities || DEFAULT_CAPABILITIES;
+  const payloadPresets = allPresets.filter(preset => (preset.resourceType || 'User') === scimResourceType);
+  const defaultEndpoint = getResourceEndpoint(apiService.getConnectorProfile(applicationId), scimResourceType);
+  // Requests are translated with this application's mappings
+  const utils = useMemo(() => new ScimUtils(config, false), [config]);
 
   useEffect(() => {
     setError(null);
-  }, [operation, endpoint]);
+  }, [operation, endpoint, resourceType]);
+
+  useEffect(() => {
+    setListedIds([]);
+    setResourceId('');
+  }, [applicationId, resourceType]);
+
+  // The SCIM server answers PATCH with 501 when it is disabled, so the tester does not offer it
+  useEffect(() => {
+    if (!capabilities.patch && operation === 'patch') {
+      setOperation('get');
+    }
+  }, [capabilities.patch, operation]);
   
-  const sampleUserData = {
-    "schemas": ["urn:ietf:params:scim:schemas:core:2.0:User"],
-    "userName": "john.doe@example.com",
-    "name": {
-      "givenName": "John",
-      "familyName": "Doe"
-    },
-    "emails": [
-      {
-        "value": "john.doe@example.com",
-        "primary": true
-      }
-    ],
-    "active": true,
-    "displayName": "John Doe",
-    "externalId": "12345"
+  const setEndpoint = (value: string) => {
+    setEndpoints(prev => ({ ...prev, [resourceType]: value }));
+  };
+  
+  const setPayloadText = (value: string) => {
+    setPayloadTexts(prev => ({ ...prev, [scimResourceType]: value }));
+  };
+  
+  const handleResourceTypeChange = (value: string) => {
+    setResourceType(value);
+    if (isDiscoveryResource(value)) {
+      setOperation('get');
+    }
+  };
+  
+  // Presets of the other resource types are kept as they are
+  const handlePresetsChange = (presets: PayloadPreset[]) => {
+    updateApplication(applicationId, {
+      payloadPresets: [
+        ...allPresets.filter(preset => (preset.resourceType || 'User') !== scimResourceType),
+        ...presets.map(preset => ({ ...preset, resourceType: scimResourceType }))
+      ]
+    });
   };
   
+  const parsedPatch = useMemo((): { operations?: PatchOperation[]; error?: string } => {
+    try {
+      return { operations: parsePatchRequest(JSON.parse(patchText)) };
+    } catch (error) {
+      return { error: error instanceof SyntaxError ? `Invalid JSON: ${error.message}` : (error as Error).message };
+    }
+  }, [patchText]);
+  
+  const parsedBulk = useMemo((): { value?: unknown; operationCount?: number; error?: string } => {
+    if (!capabilities.bulk.supported) {
+      return { error: 'Bulk operations are disabled. Enable them in the service provider capabilities.' };
+    }
+    try {
+      const value = JSON.parse(bulkText);
+      return { value, operationCount: parseBulkRequest(value, capabilities.bulk).operations.length };
+    } catch (error) {
+      return { error: error instanceof SyntaxError ? `Invalid JSON: ${error.message}` : (error as Error).message };
+    }
+  }, [bulkText, capabilities.bulk]);
+  
+  const parsedPayload = useMemo((): { value: unknown; issues: ValidationIssue[] } => {
+    try {
+      const value = JSON.parse(payloadText);
+      return { value, issues: validateScimResource(value, scimResourceType, config.schemaExtensions || []) };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { value: undefined, issues: [{ path: '', message: `Invalid JSON: ${message}`, severity: 'error' }] };
+    }
+  }, [payloadText, scimResourceType, config]);
+  
+  const payloadIsValid = !parsedPayload.issues.some(issue => issue.severity === 'error');
+  
+  // What CREATE/UPDATE will send upstream, shown before the request is made
+  const translatedPayload = useMemo(() => {
+    if (operation !== 'create' && operation !== 'update') {
+      return { body: null, error: null, skipped: [] };
+    }
+    if (!payloadIsValid) {
+      return { body: null, error: 'Fix the SCIM payload to see what is sent upstream.', skipped: [] };
+    }
+    try {
+      return {
+        body: utils.transformFromScim(parsedPayload.value, scimResourceType),
+        error: null,
+        skipped: getSkippedWriteMappings(scimResourceType, utils)
+      };
+    } catch (error) {
+      return { body: null, error: error instanceof Error ? error.message : String(error), skipped: [] };
+    }
+  }, [operation, parsedPayload, payloadIsValid, scimResourceType, utils]);
+  
   const handleRunTest = async () => {
     if (!isConfigured) {
       toast.error('Configuration incomplete', {
@@ -59,52 +272,166 @@ const EndpointTester: React.FC<EndpointTesterProps> = ({ isConfigured, applicati
       return;
     }
     
+    if ((operation === 'create' || operation === 'update') && !payloadIsValid) {
+      toast.error('Invalid payload', {
+        description: 'Fix the SCIM payload errors before sending it.',
+      });
+      return;
+    }
+    
+    if (operation === 'patch' && parsedPatch.error) {
+      toast.error('Invalid PATCH request', {
+        description: parsedPatch.error,
+      });
+      return;
+    }
+    
+    if (operation === 'bulk' && parsedBulk.error) {
+      toast.error('Invalid bulk request', {
+        description: parsedBulk.error,
+      });
+      return;
+    }
+    
+    if ((operation === 'update' || operation === 'patch' || operation === 'delete') && !resourceId.trim()) {
+      toast.error('Resource ID required', {
+        description: `Enter the ID of the ${scimResourceType.toLowerCase()} to update or delete.`,
+      });
+      return;
+    }
+    
     setIsLoading(true);
     setTestResults(null);
     setResponseTime(null);
     setRawData(null);
     setError(null);
+    setFilterTranslation(null);
+    setCoercionReports(null);
+    setPatchSummary(null);
+    setBulkResults(null);
     
     const startTime = performance.now();
     
     try {
-      let finalEndpoint = endpoint;
-      
-      // For dummyjson, use empty string to get all users
-      if (finalEndpoint === '/users' && apiService.getConfig(applicationId)?.baseUrl.includes('dummyjson.com/users')) {
-        finalEndpoint = '';
+      if (operation === 'bulk') {
+        // Sent to the SCIM server as a client would, so every operation takes the same path as a single request
+        const response = await handleScimRequest({ method: 'POST', path: '/Bulk', body: parsedBulk.value }, applicationId, utils);
+        const endTime = performance.now();
+        setResponseTime(Math.round(endTime - startTime));
+        setTestResults(response.body);
+        
+        if (response.status !== 200) {
+          const detail = (response.body as { detail?: string } | undefined)?.detail || `Bulk request failed with status ${response.status}`;
+          setError(detail);
+          toast.error('Test failed', { description: detail });
+          return;
+        }
+        
+        const bulkResponse = response.body as BulkResponse;
+        const failed = bulkResponse.Operations.filter(result => Number(result.status) >= 400).length;
+        setBulkResults({ response: bulkResponse, requested: parsedBulk.operationCount });
+        if (failed > 0) {
+          toast.warning('Bulk request completed with errors', {
+            description: `${failed} of ${parsedBulk.operationCount} operations failed`,
+          });
+        } else {
+          toast.success('Test completed successfully', {
+            description: `Operation completed in ${Math.round(endTime - startTime)}ms`,
+          });
+        }
+        return;
       }
       
-      finalEndpoint = finalEndpoint.trim();
+      if (isDiscovery) {
+        setTestResults(getDiscoveryDocument(resourceType, utils));
+        setResponseTime(Math.round(performance.now() - startTime));
+        return;
+      }
       
-      if (operation === 'get' && filter) {
-        const separator = finalEndpoint.includes('?') ? '&' : '?';
-        finalEndpoint += `${separator}filter=${encodeURIComponent(filter)}`;
+      // Without an explicit endpoint, use the paths declared by the connector profile
+      const explicitEndpoint = endpoint.trim();
+      const resourceEndpoint: ResourceEndpoint | null = defaultEndpoint
+        ?? (explicitEndpoint ? { resourcePath: explicitEndpoint, itemPathTemplate: `${explicitEndpoint}/{id}` } : null);
+      if (!resourceEndpoint) {
+        throw new Error(`No upstream path for ${resourceType}. Enter an API endpoint or add one to the connector profile.`);
       }
+      const finalEndpoint = explicitEndpoint || resourceEndpoint.resourcePath;
+      const itemEndpoint = (id: string) => explicitEndpoint ? `${finalEndpoint}/${id}` : buildItemPath(resourceEndpoint, id);
       
       let responseData;
       
       switch (operation) {
-        case 'get':
-          responseData = await apiService.fetchData(finalEndpoint, undefined, applicationId);
-          break;
+        case 'get': {
+          // Filtering, paging and the SCIM transformation all happen in the SCIM layer
+          const result = await listResources(scimResourceType, finalEndpoint, {
+            filter,
+            startIndex: parseInt(startIndex, 10) || 1,
+            count: count.trim() ? Math.max(0, parseInt(count, 10) || 0) : undefined
+          }, applicationId, resourceEndpoint, utils);
+          
+          const endTime = performance.now();
+          setResponseTime(Math.round(endTime - startTime));
+          setRawData(result.upstream);
+          setFilterTranslation(result.filterTranslation || null);
+          setTestResults(result.listResponse || result.resource);
+          setCoercionReports(buildCoercionReport(
+            result.listResponse ? result.upstream as unknown[] : [result.upstream],
+            scimResourceType,
+            utils
+          ));
+          
+          const listed = (result.listResponse ? result.listResponse.Resources : [result.resource]) as
+            ({ id?: string | number; externalId?: string | number } | undefined)[];
+          setListedIds(listed
+            .map(resource => resource?.id ?? resource?.externalId)
+            .filter((id): id is string | number => id !== undefined && id !== null && id !== '')
+            .map(String));
+          
+          toast.success('Test completed successfully', {
+            description: `Operation completed in ${Math.round(endTime - startTime)}ms`,
+          });
+          return;
+        }
           
         case 'create':
-          responseData = await apiService.fetchData(finalEndpoint, {
-            method: 'POST',
-            body: JSON.stringify(sampleUserData)
-          }, applicationId);
-          break;
+        case 'update': {
+          // Exercise the write path: SCIM in, upstream shape out, and back to SCIM
+          const result = operation === 'create'
+            ? await createResource(scimResourceType, finalEndpoint, parsedPayload.value, applicationId, utils)
+            : await replaceResource(scimResourceType, itemEndpoint(resourceId.trim()), parsedPayload.value, applicationId, utils);
           
-        case 'update':
-          responseData = await apiService.fetchData(`${finalEndpoint}/12345`, {
-            method: 'PUT',
-            body: JSON.stringify(sampleUserData)
-          }, applicationId);
-          break;
+          const endTime = performance.now();
+          setResponseTime(Math.round(endTime - startTime));
+          setRawData(result.upstream);
+          setTestResults(result.resource ?? result.upstream);
+          if (result.resource) {
+            setCoercionReports(buildCoercionReport([result.upstream], scimResourceType, utils));
+          }
+          
+          toast.success('Test completed successfully', {
+            description: `Operation completed in ${Math.round(endTime - startTime)}ms`,
+          });
+          return;
+        }
+          
+        case 'patch': {
+          // Operations apply to the current resource; only the changed upstream fields are written
+          const result = await patchResource(scimResourceType, itemEndpoint(resourceId.trim()), parsedPatch.operations, applicationId, utils);
+          
+          const endTime = performance.now();
+          setResponseTime(Math.round(endTime - startTime));
+          setRawData(result.upstream);
+          setTestResults(result.resource);
+          setPatchSummary({ method: result.method, request: result.request });
+          
+          toast.success('Test completed successfully', {
+            description: `Operation completed in ${Math.round(endTime - startTime)}ms`,
+          });
+          return;
+        }
           
         case 'delete':
-          responseData = await apiService.fetchData(`${finalEndpoint}/12345`, {
+          responseData = await apiService.fetchData(itemEndpoint(resourceId.trim()), {
             method: 'DELETE'
           }, applicationId);
           break;
@@ -117,30 +444,8 @@ const EndpointTester: React.FC<EndpointTesterProps> = ({ isConfigured, applicati
       
       if (responseData) {
         try {
-          if (operation === 'get') {
-            if (Array.isArray(responseData)) {
-              const scimUsers = responseData.map(user => 
-                scimUtils.transformToScim(user, 'User')
-              );
-              
-              setTestResults({
-                "totalResults": scimUsers.length,
-                "itemsPerPage": scimUsers.length,
-                "schemas": ["urn:ietf:params:scim:api:messages:2.0:ListResponse"],
-                "Resources": scimUsers
-              });
-            } else if (responseData.Resources || responseData.resources) {
-              setTestResults(responseData);
-            } else if (typeof responseData === 'object') {
-              const scimData = scimUtils.transformToScim(responseData, 'User');
-              setTestResults(scimData);
-            } else {
-              setTestResults({ data: responseData });
-            }
-          } else {
-            const scimData = scimUtils.transformToScim(responseData, 'User');
-            setTestResults(scimData);
-          }
+          const scimData = utils.transformToScim(responseData, scimResourceType);
+          setTestResults(scimData);
         } catch (error) {
           console.error('Error transforming to SCIM:', error);
           setTestResults(responseData);
@@ -153,6 +458,9 @@ const EndpointTester: React.FC<EndpointTesterProps> = ({ isConfigured, applicati
       });
     } catch (error) {
       console.error('API test failed:', error);
+      if (error instanceof ScimError) {
+        setTestResults(error.toResponse());
+      }
       const errorMessage = error instanceof Error ? error.message : 'Unknown error during API test';
       setError(errorMessage);
       toast.error('Test failed', {
@@ -202,9 +510,13 @@ const EndpointTester: React.FC<EndpointTesterProps> = ({ isConfigured, applicati
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="get">GET (List/Read)</SelectItem>
-                <SelectItem value="create">CREATE</SelectItem>
-                <SelectItem value="update">UPDATE</SelectItem>
-                <SelectItem value="delete">DELETE</SelectItem>
+                <SelectItem value="create" disabled={isDiscovery}>CREATE</SelectItem>
+                <SelectItem value="update" disabled={isDiscovery}>UPDATE</SelectItem>
+                <SelectItem value="patch" disabled={isDiscovery || !capabilities.patch}>
+                  PATCH{!capabilities.patch && ' (disabled in capabilities)'}
+                </SelectItem>
+                <SelectItem value="delete" disabled={isDiscovery}>DELETE</SelectItem>
+                <SelectItem value="bulk" disabled={isDiscovery}>BULK</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -213,9 +525,14 @@ const EndpointTester: React.FC<EndpointTesterProps> = ({ isConfigured, applicati
             <Label htmlFor="endpoint">API Endpoint</Label>
             <Input
               id="endpoint"
-              placeholder="/users"
-              value={endpoint}
+              placeholder={isDiscovery
+                ? 'Served locally'
+                : operation === 'bulk'
+                ? 'Paths of the connector profile'
+                : defaultEndpoint ? defaultEndpoint.resourcePath || 'Base URL' : `Upstream path for ${resourceType}`}
+              value={isDiscovery || operation === 'bulk' ? '' : endpoint}
               onChange={(e) => setEndpoint(e.target.value)}
+              disabled={isDiscovery || operation === 'bulk'}
             />
           </div>
           
@@ -223,7 +540,8 @@ const EndpointTester: React.FC<EndpointTesterProps> = ({ isConfigured, applicati
             <Label htmlFor="resourceType">SCIM Resource Type</Label>
             <Select
               value={resourceType}
-              onValueChange={setResourceType}
+              onValueChange={handleResourceTypeChange}
+              disabled={operation === 'bulk'}
             >
               <SelectTrigger id="resourceType">
                 <SelectValue placeholder="Select resource" />
@@ -232,49 +550,176 @@ const EndpointTester: React.FC<EndpointTesterProps> = ({ isConfigured, applicati
                 <SelectItem value="Users">Users</SelectItem>
                 <SelectItem value="Groups">Groups</SelectItem>
                 <SelectItem value="ServiceProviderConfig">Service Provider Config</SelectItem>
+                <SelectItem value="ResourceTypes">Resource Types</SelectItem>
                 <SelectItem value="Schemas">Schemas</SelectItem>
               </SelectContent>
             </Select>
           </div>
           
-          {operation === 'get' && (
+          {operation === 'get' && !isDiscovery && (
             <div className="space-y-2">
               <Label htmlFor="filter">Filter (Optional)</Label>
               <div className="relative">
                 <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
                 <Input
                   id="filter"
-                  placeholder="name=John"
+                  placeholder='userName eq "john"'
                   value={filter}
                   onChange={(e) => setFilter(e.target.value)}
-                  className="pl-9"
+                  className={`pl-9 font-mono text-xs ${filter.trim() && validateFilter(filter) ? 'border-destructive' : ''}`}
+                />
+              </div>
+              {filter.trim() && validateFilter(filter) && (
+                <p className="text-xs text-destructive">{validateFilter(filter)}</p>
+              )}
+            </div>
+          )}
+          
+          {operation === 'get' && !isDiscovery && (
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="startIndex">Start Index</Label>
+                <Input
+                  id="startIndex"
+                  type="number"
+                  min={1}
+                  value={startIndex}
+                  onChange={(e) => setStartIndex(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="count">Count</Label>
+                <Input
+                  id="count"
+                  type="number"
+                  min={0}
+                  placeholder="All"
+                  value={count}
+                  onChange={(e) => setCount(e.target.value)}
                 />
               </div>
             </div>
           )}
+          
+          {(operation === 'update' || operation === 'patch' || operation === 'delete') && (
+            <div className="space-y-2">
+              <Label htmlFor="resourceId">Resource ID</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="resourceId"
+                  placeholder={`${scimResourceType} ID`}
+                  value={resourceId}
+                  onChange={(e) => setResourceId(e.target.value)}
+                  className="font-mono text-xs"
+                />
+                {listedIds.length > 0 && (
+                  <Select value="" onValueChange={setResourceId}>
+                    <SelectTrigger className="w-36">
+                      <SelectValue placeholder="From last GET" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {listedIds.map(id => (
+                        <SelectItem key={id} value={id}>{id}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+            </div>
+          )}
         </div>
         
-        {operation === 'create' && (
+        {(operation === 'create' || operation === 'update') && (
           <div className="space-y-2">
-            <Label>Request Payload</Label>
-            <div className="relative bg-muted/50 rounded-md p-4 font-mono text-sm overflow-hidden">
-              <ScrollArea className="h-60">
-                <pre className="text-xs sm:text-sm">
-                  {JSON.stringify(sampleUserData, null, 2)}
-                </pre>
-              </ScrollArea>
-              <Button 
-                variant="outline" 
-                size="icon" 
-                className="absolute top-2 right-2 h-8 w-8"
-                onClick={() => copyToClipboard(JSON.stringify(sampleUserData, null, 2), 'payload')}
-              >
-                {isCopied['payload'] ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
-              </Button>
-            </div>
+            <Tabs defaultValue="scim">
+              <div className="flex justify-between items-center mb-2">
+                <Label>Request Payload</Label>
+                <TabsList>
+                  <TabsTrigger value="scim" className="text-xs px-2 py-1 h-7">SCIM</TabsTrigger>
+                  <TabsTrigger value="upstream" className="text-xs px-2 py-1 h-7">Sent Upstream</TabsTrigger>
+                </TabsList>
+              </div>
+              <TabsContent value="scim">
+                <PayloadEditor
+                  key={scimResourceType}
+                  resourceType={scimResourceType}
+                  value={payloadText}
+                  onChange={setPayloadText}
+                  issues={parsedPayload.issues}
+                  presets={payloadPresets}
+                  onPresetsChange={handlePresetsChange}
+                />
+              </TabsContent>
+              <TabsContent value="upstream">
+                <div className="relative bg-muted/50 rounded-md p-4 font-mono text-sm overflow-hidden">
+                  <ScrollArea className="h-60">
+                    <pre className="text-xs sm:text-sm">
+                      {translatedPayload.error
+                        ? translatedPayload.error
+                        : JSON.stringify(translatedPayload.body, null, 2)}
+                    </pre>
+                  </ScrollArea>
+                  {!translatedPayload.error && (
+                    <Button 
+                      variant="outline" 
+                      size="icon" 
+                      className="absolute top-2 right-2 h-8 w-8"
+                      onClick={() => copyToClipboard(JSON.stringify(translatedPayload.body, null, 2), 'translated')}
+                    >
+                      {isCopied['translated'] ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                    </Button>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground mt-2">
+                  The SCIM payload translated through the reverse of your mappings. The upstream response is translated back to SCIM.
+                </p>
+                {translatedPayload.skipped.length > 0 && (
+                  <div className="mt-2 text-xs text-amber-600 space-y-0.5">
+                    <p className="font-medium">Not written upstream:</p>
+                    {translatedPayload.skipped.map(skipped => (
+                      <p key={skipped.scimAttribute}>
+                        <code>{skipped.scimAttribute}</code>: {skipped.reason}
+                      </p>
+                    ))}
+                  </div>
+                )}
+              </TabsContent>
+            </Tabs>
           </div>
         )}
         
+        {operation === 'patch' && (
+          <div className="space-y-2">
+            <Label htmlFor="patchRequest">PatchOp Request</Label>
+            <Textarea
+              id="patchRequest"
+              value={patchText}
+              onChange={(e) => setPatchTexts(prev => ({ ...prev, [scimResourceType]: e.target.value }))}
+              className={`h-56 font-mono text-xs ${parsedPatch.error ? 'border-destructive' : ''}`}
+              spellCheck={false}
+            />
+            {parsedPatch.error ? (
+              <p className="text-xs text-destructive">{parsedPatch.error}</p>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                {parsedPatch.operations.length} operation{parsedPatch.operations.length === 1 ? '' : 's'}. Paths may select
+                values with a filter, e.g. <code>emails[type eq "work"].value</code>. Only the upstream fields whose mapped
+                values change are written, as {apiService.getConnectorProfile(applicationId).updateMethod === 'PATCH'
+                  ? 'a PATCH' : 'a PUT of the merged record'}.
+              </p>
+            )}
+          </div>
+        )}
+        
+        {operation === 'bulk' && (
+          <BulkComposer
+            value={bulkText}
+            onChange={setBulkText}
+            error={parsedBulk.error}
+            operationCount={parsedBulk.operationCount}
+          />
+        )}
+        
         {error && (
           <div className="bg-destructive/10 border border-destructive/30 text-destructive rounded-md p-4 text-sm">
             <div className="flex items-start gap-2">
@@ -302,6 +747,48 @@ const EndpointTester: React.FC<EndpointTesterProps> = ({ isConfigured, applicati
           Run Test
         </Button>
         
+        {filterTranslation && (
+          <div className="w-full rounded-md border border-border bg-muted/30 p-3 text-xs space-y-1">
+            <div className="flex items-center gap-2 font-medium">
+              <Search className="h-3.5 w-3.5 text-primary" />
+              Filter execution
+            </div>
+            <div>
+              <span className="text-muted-foreground">Sent upstream: </span>
+              <code>
+                {Object.keys(filterTranslation.query).length > 0
+                  ? appendQueryParams('', filterTranslation.query)
+                  : 'nothing (no matching query parameters)'}
+              </code>
+            </div>
+            <div>
+              <span className="text-muted-foreground">Evaluated locally only: </span>
+              <code>{filterTranslation.residual ? formatFilter(filterTranslation.residual) : 'nothing'}</code>
+            </div>
+          </div>
+        )}
+        
+        {patchSummary && (
+          <div className="w-full rounded-md border border-border bg-muted/30 p-3 text-xs space-y-1">
+            <div className="flex items-center gap-2 font-medium">
+              <RefreshCw className="h-3.5 w-3.5 text-primary" />
+              Upstream update
+            </div>
+            {patchSummary.method ? (
+              <>
+                <p className="text-muted-foreground">Sent as {patchSummary.method}:</p>
+                <pre className="font-mono whitespace-pre-wrap">{JSON.stringify(patchSummary.request, null, 2)}</pre>
+              </>
+            ) : (
+              <p className="text-muted-foreground">No mapped field changed, so nothing was sent upstream.</p>
+            )}
+          </div>
+        )}
+        
+        {bulkResults && <BulkResultsView response={bulkResults.response} requested={bulkResults.requested} />}
+        
+        {coercionReports && <CoercionReportView reports={coercionReports} />}
+        
         {responseTime !== null && (
           <div className="w-full flex items-center justify-center gap-2 text-sm text-muted-foreground">
             <Clock className="h-4 w-4" />
@@ -338,7 +825,7 @@ const EndpointTester: React.FC<EndpointTesterProps> = ({ isConfigured, applicati
                     </Button>
                   </div>
                   <ScrollArea className="h-60">
-                    {operation === 'get' && testResults.Resources && (
+                    {operation === 'get' && resourceType === 'Users' && testResults.Resources && (
                       <div className="space-y-4">
                         <p className="text-sm text-muted-foreground mb-2">
                           Found {testResults.totalResults || testResults.Resources.length} users
@@ -372,7 +859,7 @@ const EndpointTester: React.FC<EndpointTesterProps> = ({ isConfigured, applicati
                       </div>
                     )}
                     
-                    {(operation !== 'get' || !testResults.Resources) && (
+                    {(operation !== 'get' || resourceType !== 'Users' || !testResults.Resources) && (
                       <pre className="text-xs sm:text-sm">
                         {JSON.stringify(testResults, null, 2)}
                       </pre>
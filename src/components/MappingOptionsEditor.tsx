@@ -0,0 +1,144 @@
+import React from 'react';
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeftRight, Filter, ShieldCheck } from "lucide-react";
+import { CoercionMode, MappingDirection, MappingItem } from "@/models/ApplicationConfig";
+import { validateExpression } from "@/utils/expression";
+import { CompareOperator } from "@/utils/scimFilter";
+import { getWriteSkipReason } from "@/utils/scimUtils";
+
+const MAPPING_DIRECTIONS: { id: MappingDirection; name: string }[] = [
+  { id: 'bidirectional', name: 'Bidirectional (read and write)' },
+  { id: 'outbound', name: 'Outbound only (upstream to SCIM)' },
+  { id: 'inbound', name: 'Inbound only (SCIM to upstream)' },
+];
+
+const COERCION_MODES: { id: CoercionMode; name: string }[] = [
+  { id: 'lenient', name: 'Lenient (keep values that cannot be coerced)' },
+  { id: 'strict', name: 'Strict (leave such values out)' },
+];
+
+const PUSHDOWN_OPERATORS: { id: CompareOperator; name: string }[] = [
+  { id: 'eq', name: 'eq (equals)' },
+  { id: 'ne', name: 'ne (not equal)' },
+  { id: 'co', name: 'co (contains)' },
+  { id: 'sw', name: 'sw (starts with)' },
+  { id: 'ew', name: 'ew (ends with)' },
+  { id: 'gt', name: 'gt (greater than)' },
+  { id: 'ge', name: 'ge (greater or equal)' },
+  { id: 'lt', name: 'lt (less than)' },
+  { id: 'le', name: 'le (less or equal)' },
+];
+
+interface MappingOptionsEditorProps {
+  mapping: MappingItem;
+  onChange: (updates: Partial<MappingItem>) => void;
+}
+
+const MappingOptionsEditor: React.FC<MappingOptionsEditorProps> = ({ mapping, onChange }) => {
+  const updateQueryParam = (operator: CompareOperator, param: string) => {
+    const queryParams = { ...(mapping.queryParams || {}) };
+    if (param.trim()) {
+      queryParams[operator] = param.trim();
+    } else {
+      delete queryParams[operator];
+    }
+    onChange({ queryParams: Object.keys(queryParams).length > 0 ? queryParams : undefined });
+  };
+
+  const writeSkipReason = getWriteSkipReason(mapping);
+
+  return (
+    <div className="rounded-md border border-dashed border-border bg-muted/20 p-3 space-y-3">
+      <div className="flex items-center gap-2 text-xs font-medium">
+        <ArrowLeftRight className="h-3.5 w-3.5 text-primary" />
+        <span>Direction for <code>{mapping.scimAttribute}</code></span>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Applied when</Label>
+          <Select
+            value={mapping.direction || 'bidirectional'}
+            onValueChange={(value: MappingDirection) => onChange({ direction: value === 'bidirectional' ? undefined : value })}
+          >
+            <SelectTrigger className="h-8 text-xs bg-transparent">
+              <SelectValue placeholder="Direction" />
+            </SelectTrigger>
+            <SelectContent>
+              {MAPPING_DIRECTIONS.map(direction => (
+                <SelectItem key={direction.id} value={direction.id}>{direction.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {!mapping.multiValued && mapping.direction !== 'outbound' && (
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Inverse transformation</Label>
+            <Input
+              placeholder={mapping.transformation ? 'e.g. value + " " + scim.name.familyName' : 'Not needed without a transformation'}
+              value={mapping.inverseTransformation || ''}
+              onChange={(e) => onChange({ inverseTransformation: e.target.value || undefined })}
+              className={`h-8 font-mono text-xs bg-transparent ${validateExpression(mapping.inverseTransformation) ? 'border-destructive' : ''}`}
+            />
+            {validateExpression(mapping.inverseTransformation) && (
+              <p className="text-xs text-destructive">{validateExpression(mapping.inverseTransformation)}</p>
+            )}
+          </div>
+        )}
+      </div>
+      <p className={`text-xs ${writeSkipReason ? 'text-amber-600' : 'text-muted-foreground'}`}>
+        {writeSkipReason
+          ? `Skipped on writes: ${writeSkipReason}.`
+          : <>Inverse transformations get the SCIM value as <code>value</code> and the whole resource as <code>scim</code>.</>}
+      </p>
+
+      <div className="flex items-center gap-2 text-xs font-medium">
+        <ShieldCheck className="h-3.5 w-3.5 text-primary" />
+        <span>Type coercion for <code>{mapping.scimAttribute}</code></span>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Mapped values are converted to the attribute's SCIM type, e.g. <code>"true"</code> to <code>true</code>.
+        Values that cannot be converted are listed in the validation report.
+      </p>
+      <Select
+        value={mapping.coercion || 'lenient'}
+        onValueChange={(value: CoercionMode) => onChange({ coercion: value === 'lenient' ? undefined : value })}
+      >
+        <SelectTrigger className="h-8 text-xs bg-transparent md:w-1/2">
+          <SelectValue placeholder="Coercion" />
+        </SelectTrigger>
+        <SelectContent>
+          {COERCION_MODES.map(mode => (
+            <SelectItem key={mode.id} value={mode.id}>{mode.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <div className="flex items-center gap-2 text-xs font-medium">
+        <Filter className="h-3.5 w-3.5 text-primary" />
+        <span>Filter pushdown for <code>{mapping.scimAttribute}</code></span>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Name the upstream query parameter that evaluates each operator natively. Filters using other
+        operators, or combined with <code>or</code>/<code>not</code>, are evaluated locally.
+        {mapping.transformation && ' Mappings with a transformation are never pushed down.'}
+      </p>
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+        {PUSHDOWN_OPERATORS.map(operator => (
+          <div key={operator.id} className="space-y-1">
+            <Label className="text-xs text-muted-foreground">{operator.name}</Label>
+            <Input
+              placeholder="query parameter"
+              value={mapping.queryParams?.[operator.id] || ''}
+              onChange={(e) => updateQueryParam(operator.id, e.target.value)}
+              className="h-8 font-mono text-xs bg-transparent"
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default MappingOptionsEditor;
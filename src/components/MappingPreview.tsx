@@ -3,149 +3,154 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ArrowRight, Code, Database } from "lucide-react";
 import { ScrollArea } from "@/components/ui/scroll-area";
-
-interface MappingItem {
-  scimAttribute: string;
-  sourceField: string;
-  isRequired: boolean;
-  transformation?: string;
-}
+import { collectReferences } from "@/utils/expression";
+import { getSourceArrayPath, ScimUtils, TransformAppMetadata } from "@/utils/scimUtils";
+import { ValidationIssue } from "@/utils/scimValidation";
+import { MappingItem, TransformVariable } from "@/models/ApplicationConfig";
+import { SchemaExtension } from "@/models/SchemaExtension";
+import CoercionReportView from "./CoercionReportView";
 
 interface MappingPreviewProps {
   mappings: MappingItem[];
+  variables?: TransformVariable[];
+  app?: TransformAppMetadata;
   applicationId?: string;
+  schemaExtensions?: SchemaExtension[];
 }
 
-const MappingPreview: React.FC<MappingPreviewProps> = ({ mappings, applicationId }) => {
+const MappingPreview: React.FC<MappingPreviewProps> = ({ mappings, variables = [], app, applicationId, schemaExtensions }) => {
+  // Every source path the mappings read, either directly or from an expression
+  const getReferencedSourceFields = () => {
+    const fields = new Set<string>();
+    
+    mappings.forEach(mapping => {
+      if (mapping.sourceField && !mapping.multiValued) {
+        fields.add(mapping.sourceField);
+      }
+      if (mapping.transformation) {
+        collectReferences(mapping.transformation, 'source').forEach(field => fields.add(field));
+      }
+    });
+    
+    variables.forEach(variable => {
+      collectReferences(variable.expression, 'source').forEach(field => fields.add(field));
+    });
+    
+    return [...fields];
+  };
+  
   // Generate sample source data based on mappings
   const generateSampleSourceData = () => {
     const data: Record<string, any> = {};
     
-    mappings.forEach(mapping => {
-      if (mapping.sourceField) {
-        // Handle simple fields
-        if (!mapping.sourceField.includes('.')) {
-          switch (mapping.sourceField) {
-            case 'user_name':
-              data[mapping.sourceField] = 'johndoe';
-              break;
-            case 'first_name':
-              data[mapping.sourceField] = 'John';
-              break;
-            case 'last_name':
-              data[mapping.sourceField] = 'Doe';
-              break;
-            case 'email':
-              data[mapping.sourceField] = 'john.doe@example.com';
-              break;
-            case 'is_active':
-              data[mapping.sourceField] = true;
-              break;
-            case 'phone':
-              data[mapping.sourceField] = '+1 555-123-4567';
-              break;
-            case 'user_id':
-              data[mapping.sourceField] = '12345';
-              break;
-            case 'profile_url':
-              data[mapping.sourceField] = 'https://example.com/profiles/johndoe';
-              break;
-            default:
-              data[mapping.sourceField] = `Sample ${mapping.sourceField}`;
-          }
-        } else {
-          // Handle nested fields (not implemented for this example)
-          const parts = mapping.sourceField.split('.');
-          let current = data;
-          for (let i = 0; i < parts.length - 1; i++) {
-            if (!current[parts[i]]) {
-              current[parts[i]] = {};
-            }
-            current = current[parts[i]];
+    getReferencedSourceFields().forEach(sourceField => {
+      // Handle simple fields
+      if (!sourceField.includes('.')) {
+        switch (sourceField) {
+          case 'user_name':
+            data[sourceField] = 'johndoe';
+            break;
+          case 'first_name':
+            data[sourceField] = 'John';
+            break;
+          case 'last_name':
+            data[sourceField] = 'Doe';
+            break;
+          case 'email':
+            data[sourceField] = 'john.doe@example.com';
+            break;
+          case 'is_active':
+            data[sourceField] = true;
+            break;
+          case 'phone':
+            data[sourceField] = '+1 555-123-4567';
+            break;
+          case 'user_id':
+            data[sourceField] = '12345';
+            break;
+          case 'profile_url':
+            data[sourceField] = 'https://example.com/profiles/johndoe';
+            break;
+          default:
+            data[sourceField] = `Sample ${sourceField}`;
+        }
+      } else {
+        // Handle nested fields (not implemented for this example)
+        const parts = sourceField.split('.');
+        let current = data;
+        for (let i = 0; i < parts.length - 1; i++) {
+          if (!current[parts[i]] || typeof current[parts[i]] !== 'object') {
+            current[parts[i]] = {};
           }
-          current[parts[parts.length - 1]] = `Sample ${parts[parts.length - 1]}`;
+          current = current[parts[i]];
+        }
+        current[parts[parts.length - 1]] = `Sample ${parts[parts.length - 1]}`;
+      }
+    });
+    
+    // Multi-valued mappings read arrays; give them two elements to show the per-element mapping
+    mappings.filter(mapping => mapping.multiValued && mapping.sourceField).forEach(mapping => {
+      const elementFields = mapping.multiValued.subMappings
+        .map(sub => sub.sourceField)
+        .filter(Boolean);
+      
+      const elements = [1, 2].map(n => {
+        if (elementFields.length === 0) {
+          return `sample${n}@example.com`;
         }
+        const element: Record<string, any> = {};
+        elementFields.forEach(field => {
+          element[field] = field.toLowerCase().includes('primary') ? n === 1 : `Sample ${field} ${n}`;
+        });
+        return element;
+      });
+      
+      const parts = getSourceArrayPath(mapping.sourceField).split('.');
+      let current = data;
+      for (let i = 0; i < parts.length - 1; i++) {
+        if (!current[parts[i]] || typeof current[parts[i]] !== 'object') {
+          current[parts[i]] = {};
+        }
+        current = current[parts[i]];
       }
+      current[parts[parts.length - 1]] = elements;
     });
     
     return data;
   };
   
-  // Generate SCIM data based on mappings
+  // Find the mapping that reads a top-level source field, directly or via `source.<field>`
+  const findMappingForField = (key: string) => {
+    return mappings.find(m => m.sourceField === key) ||
+      mappings.find(m => m.transformation &&
+        collectReferences(m.transformation, 'source').some(field => field.split('.')[0] === key));
+  };
+  
+  // Generate SCIM data based on mappings, using the same engine as the live transform
   const generateScimData = () => {
-    const sourceData = generateSampleSourceData();
-    const scimData: Record<string, any> = {
-      schemas: ["urn:ietf:params:scim:schemas:core:2.0:User"]
-    };
+    const previewUtils = new ScimUtils({
+      mappings,
+      baseUrl: app?.baseUrl || '',
+      resourceTypes: ['Users'],
+      app,
+      variables,
+      schemaExtensions
+    }, false);
     
-    mappings.forEach(mapping => {
-      if (mapping.sourceField) {
-        const value = sourceData[mapping.sourceField];
-        let transformedValue = value;
-        
-        // Apply transformation if specified
-        if (mapping.transformation) {
-          try {
-            // This is a simplified implementation and not secure for production
-            // eslint-disable-next-line no-new-func
-            const transform = new Function('value', `return ${mapping.transformation}`);
-            transformedValue = transform(value);
-          } catch (error) {
-            console.error(`Error applying transformation for ${mapping.scimAttribute}:`, error);
-          }
-        }
-        
-        // Set the value in the SCIM data structure
-        if (mapping.scimAttribute.includes('.')) {
-          const parts = mapping.scimAttribute.split('.');
-          let current = scimData;
-          
-          for (let i = 0; i < parts.length - 1; i++) {
-            if (!current[parts[i]]) {
-              current[parts[i]] = {};
-            }
-            current = current[parts[i]];
-          }
-          
-          current[parts[parts.length - 1]] = transformedValue;
-        } else if (mapping.scimAttribute.includes('[')) {
-          // Handle array paths like emails[0].value
-          const mainPart = mapping.scimAttribute.split('[')[0];
-          const arrayIndex = parseInt(mapping.scimAttribute.split('[')[1].split(']')[0]);
-          const remainingPath = mapping.scimAttribute.split(']')[1].substring(1); // remove the leading .
-          
-          if (!scimData[mainPart]) {
-            scimData[mainPart] = [];
-          }
-          
-          while (scimData[mainPart].length <= arrayIndex) {
-            scimData[mainPart].push({});
-          }
-          
-          if (remainingPath) {
-            scimData[mainPart][arrayIndex][remainingPath] = transformedValue;
-          } else {
-            scimData[mainPart][arrayIndex] = transformedValue;
-          }
-        } else {
-          scimData[mapping.scimAttribute] = transformedValue;
-        }
-      }
-    });
+    const issues: ValidationIssue[] = [];
+    const scimData = previewUtils.transformToScim(generateSampleSourceData(), 'User', issues);
     
     // Add default metadata
     scimData.meta = {
-      resourceType: "User",
-      created: new Date().toISOString(),
-      lastModified: new Date().toISOString(),
+      ...scimData.meta,
       location: "https://example.com/scim/v2/Users/12345"
     };
     
-    return scimData;
+    return { scimData, issues };
   };
   
   const sampleSourceData = generateSampleSourceData();
-  const sampleScimData = generateScimData();
+  const { scimData: sampleScimData, issues: sampleIssues } = generateScimData();
   
   return (
     <Card className="w-full shadow-card animate-scale-in">
@@ -192,7 +197,7 @@ const MappingPreview: React.FC<MappingPreviewProps> = ({ mappings, applicationId
                         <div className="flex flex-col items-center justify-center">
                           <ArrowRight className="h-4 w-4 text-primary" />
                           <div className="text-xs text-muted-foreground mt-1">
-                            {mappings.find(m => m.sourceField === key)?.transformation
+                            {findMappingForField(key)?.transformation
                               ? 'Transform'
                               : 'Map'
                             }
@@ -200,7 +205,7 @@ const MappingPreview: React.FC<MappingPreviewProps> = ({ mappings, applicationId
                         </div>
                         <div className="bg-background border border-primary/20 rounded-md p-2 overflow-hidden text-ellipsis">
                           <span className="font-mono text-xs text-primary">
-                            {mappings.find(m => m.sourceField === key)?.scimAttribute || 'Not mapped'}
+                            {findMappingForField(key)?.scimAttribute || 'Not mapped'}
                           </span>
                         </div>
                       </div>
@@ -290,6 +295,9 @@ const MappingPreview: React.FC<MappingPreviewProps> = ({ mappings, applicationId
             </div>
           </TabsContent>
         </Tabs>
+        <div className="mt-4">
+          <CoercionReportView reports={[{ record: 'Sample record', issues: sampleIssues }]} />
+        </div>
       </CardContent>
     </Card>
   );
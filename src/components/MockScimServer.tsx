@@ -0,0 +1,149 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Check, Copy, Radio, Send } from "lucide-react";
+import { toast } from "sonner";
+import { ScimConfig } from '@/utils/scimUtils';
+import { SCIM_BASE_PATH } from '@/utils/scimService';
+import {
+  getServedApplicationId,
+  isScimFacadeSupported,
+  startScimFacade,
+  stopScimFacade,
+  updateScimFacadeConfig
+} from '@/utils/scimFacade';
+
+interface MockScimServerProps {
+  applicationId: string;
+  config: ScimConfig;
+}
+
+const SERVED_ENDPOINTS = [
+  { methods: 'GET, POST', path: '/Users' },
+  { methods: 'GET, PUT, PATCH, DELETE', path: '/Users/{id}' },
+  { methods: 'GET, POST', path: '/Groups' },
+  { methods: 'GET, PUT, PATCH, DELETE', path: '/Groups/{id}' },
+  { methods: 'POST', path: '/Bulk' },
+  { methods: 'GET', path: '/ServiceProviderConfig' },
+  { methods: 'GET', path: '/ResourceTypes' },
+  { methods: 'GET', path: '/Schemas' },
+];
+
+const MockScimServer: React.FC<MockScimServerProps> = ({ applicationId, config }) => {
+  const [isRunning, setIsRunning] = useState(() => getServedApplicationId() === applicationId);
+  const [isStarting, setIsStarting] = useState(false);
+  const [isCopied, setIsCopied] = useState(false);
+  const [lastCheck, setLastCheck] = useState<string | null>(null);
+  const baseUrl = `${window.location.origin}${SCIM_BASE_PATH}`;
+
+  // Saved mapping changes apply to a running server straight away
+  useEffect(() => {
+    updateScimFacadeConfig(applicationId, config);
+  }, [applicationId, config]);
+
+  const handleToggle = async (enabled: boolean) => {
+    if (!enabled) {
+      stopScimFacade();
+      setIsRunning(false);
+      setLastCheck(null);
+      return;
+    }
+
+    setIsStarting(true);
+    try {
+      // Requests are translated with this application's mappings
+      await startScimFacade(applicationId, config);
+      setIsRunning(true);
+      toast.success('Mock SCIM server started', {
+        description: `SCIM requests to ${SCIM_BASE_PATH} are now answered for this application.`,
+      });
+    } catch (error) {
+      console.error('Failed to start the mock SCIM server:', error);
+      toast.error('Could not start the mock SCIM server', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const handleCheck = async () => {
+    const startTime = performance.now();
+    try {
+      const response = await fetch(`${SCIM_BASE_PATH}/ServiceProviderConfig`);
+      setLastCheck(`GET /ServiceProviderConfig answered ${response.status} in ${Math.round(performance.now() - startTime)}ms`);
+    } catch (error) {
+      setLastCheck(`GET /ServiceProviderConfig failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(baseUrl)
+      .then(() => {
+        setIsCopied(true);
+        setTimeout(() => setIsCopied(false), 2000);
+      })
+      .catch(() => toast.error('Failed to copy to clipboard'));
+  };
+
+  return (
+    <Card className="w-full shadow-card animate-scale-in">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <Radio className="h-5 w-5 text-primary" />
+              <span>Mock SCIM Server</span>
+            </CardTitle>
+            <CardDescription>
+              Answer real SCIM requests from this browser, translated through the application's mappings.
+            </CardDescription>
+          </div>
+          <Badge variant={isRunning ? 'default' : 'outline'}>{isRunning ? 'Running' : 'Stopped'}</Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!isScimFacadeSupported() ? (
+          <p className="text-sm text-destructive">This browser does not support service workers, which the mock server needs.</p>
+        ) : (
+          <>
+            <label className="flex items-center gap-2 text-sm">
+              <Switch checked={isRunning} disabled={isStarting} onCheckedChange={handleToggle} />
+              Serve {SCIM_BASE_PATH} for this application
+            </label>
+
+            <div className="flex items-center gap-2">
+              <code className="flex-1 rounded-md border border-border bg-muted/30 px-3 py-2 text-xs">{baseUrl}</code>
+              <Button variant="outline" size="icon" className="h-8 w-8" onClick={handleCopy}>
+                {isCopied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+              </Button>
+              <Button variant="outline" size="sm" onClick={handleCheck} disabled={!isRunning}>
+                <Send className="h-4 w-4 mr-2" />
+                Check
+              </Button>
+            </div>
+            {lastCheck && <p className="text-xs text-muted-foreground">{lastCheck}</p>}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-1 text-xs">
+              {SERVED_ENDPOINTS.map(endpoint => (
+                <div key={endpoint.path} className="flex justify-between gap-2">
+                  <code>{endpoint.path}</code>
+                  <span className="text-muted-foreground">{endpoint.methods}</span>
+                </div>
+              ))}
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              Requests are intercepted by a service worker, so only this browser can reach the server: open the URL
+              in a tab or call it with <code>fetch</code>. It stops answering when this window is closed.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MockScimServer;
@@ -0,0 +1,130 @@
+import React from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Layers, Plus, Trash2 } from "lucide-react";
+import { MultiValuedMapping, SubAttributeMapping } from "@/models/ApplicationConfig";
+import { validateExpression } from "@/utils/expression";
+
+// Select value standing for "the array element itself"
+const ELEMENT_ITSELF = '__element__';
+
+interface MultiValuedMappingEditorProps {
+  scimAttribute: string;
+  multiValued: MultiValuedMapping;
+  subAttributes: string[];
+  elementFields: string[];
+  onChange: (multiValued: MultiValuedMapping) => void;
+}
+
+const MultiValuedMappingEditor: React.FC<MultiValuedMappingEditorProps> = ({
+  scimAttribute,
+  multiValued,
+  subAttributes,
+  elementFields,
+  onChange
+}) => {
+  const { subMappings, elementFilter } = multiValued;
+
+  const updateSubMapping = (index: number, updates: Partial<SubAttributeMapping>) => {
+    const newSubMappings = [...subMappings];
+    newSubMappings[index] = { ...newSubMappings[index], ...updates };
+    onChange({ ...multiValued, subMappings: newSubMappings });
+  };
+
+  const handleAddSubMapping = () => {
+    const unmapped = subAttributes.find(attr => !subMappings.some(sub => sub.subAttribute === attr));
+    onChange({
+      ...multiValued,
+      subMappings: [...subMappings, { subAttribute: unmapped || '', sourceField: '' }]
+    });
+  };
+
+  const handleRemoveSubMapping = (index: number) => {
+    onChange({ ...multiValued, subMappings: subMappings.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="rounded-md border border-dashed border-border bg-muted/20 p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-xs font-medium">
+          <Layers className="h-3.5 w-3.5 text-primary" />
+          <span>Element mapping for <code>{scimAttribute}</code></span>
+        </div>
+        <Button variant="outline" size="sm" className="h-7" onClick={handleAddSubMapping}>
+          <Plus className="h-3 w-3 mr-1" />
+          Sub-attribute
+        </Button>
+      </div>
+
+      {subMappings.map((subMapping, index) => (
+        <div key={index} className="grid grid-cols-[1fr,1fr,1.5fr,auto] gap-2 items-start">
+          <Select
+            value={subMapping.subAttribute}
+            onValueChange={(value) => updateSubMapping(index, { subAttribute: value })}
+          >
+            <SelectTrigger className="h-8 text-xs bg-transparent">
+              <SelectValue placeholder="Sub-attribute" />
+            </SelectTrigger>
+            <SelectContent>
+              {subAttributes.map(attr => (
+                <SelectItem key={attr} value={attr}>{attr}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={subMapping.sourceField || ELEMENT_ITSELF}
+            onValueChange={(value) => updateSubMapping(index, { sourceField: value === ELEMENT_ITSELF ? '' : value })}
+          >
+            <SelectTrigger className="h-8 text-xs bg-transparent">
+              <SelectValue placeholder="Element field" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ELEMENT_ITSELF}>
+                <span className="italic">Element itself</span>
+              </SelectItem>
+              {elementFields.map(field => (
+                <SelectItem key={field} value={field}>{field}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div>
+            <Input
+              placeholder='Optional, e.g. "work"'
+              value={subMapping.transformation || ''}
+              onChange={(e) => updateSubMapping(index, { transformation: e.target.value || undefined })}
+              className={`h-8 font-mono text-xs bg-transparent ${validateExpression(subMapping.transformation) ? 'border-destructive' : ''}`}
+            />
+            {validateExpression(subMapping.transformation) && (
+              <p className="text-xs text-destructive mt-1">{validateExpression(subMapping.transformation)}</p>
+            )}
+          </div>
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleRemoveSubMapping(index)}>
+            <Trash2 className="h-3.5 w-3.5 text-muted-foreground" />
+          </Button>
+        </div>
+      ))}
+
+      <div className="space-y-1">
+        <Label className="text-xs">Element filter</Label>
+        <Input
+          placeholder='Optional, e.g. element.kind == "email"'
+          value={elementFilter || ''}
+          onChange={(e) => onChange({ ...multiValued, elementFilter: e.target.value || undefined })}
+          className={`h-8 font-mono text-xs bg-transparent ${validateExpression(elementFilter) ? 'border-destructive' : ''}`}
+        />
+        {validateExpression(elementFilter) && (
+          <p className="text-xs text-destructive">{validateExpression(elementFilter)}</p>
+        )}
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Transformations can use <code>element</code> and <code>index</code> as well as <code>source</code>.
+        Only the first element marked primary keeps <code>primary: true</code>.
+      </p>
+    </div>
+  );
+};
+
+export default MultiValuedMappingEditor;
@@ -0,0 +1,93 @@
+import React from 'react';
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Layers } from "lucide-react";
+import { PaginationConfig, PaginationStyle } from '@/utils/apiService';
+
+const PAGINATION_STYLES: { id: PaginationStyle; name: string; description: string }[] = [
+  { id: 'none', name: 'None', description: 'The list endpoint returns every record in one response.' },
+  { id: 'offset', name: 'Offset / limit', description: 'e.g. ?offset=20&limit=10' },
+  { id: 'page', name: 'Page / size', description: 'e.g. ?page=3&size=10' },
+  { id: 'cursor', name: 'Cursor / next link', description: 'The response body holds a cursor or the URL of the next page.' },
+  { id: 'linkHeader', name: 'Link header', description: 'The next page is announced in a Link header with rel="next".' },
+];
+
+interface PaginationConfigEditorProps {
+  pagination?: PaginationConfig;
+  onChange: (pagination: PaginationConfig) => void;
+}
+
+const PaginationConfigEditor: React.FC<PaginationConfigEditorProps> = ({ pagination, onChange }) => {
+  const current: PaginationConfig = pagination || { style: 'none' };
+  const style = PAGINATION_STYLES.find(item => item.id === current.style);
+
+  const update = (updates: Partial<PaginationConfig>) => {
+    onChange({ ...current, ...updates });
+  };
+
+  const textField = (key: keyof PaginationConfig, label: string, placeholder: string) => (
+    <div className="space-y-1">
+      <Label htmlFor={`pagination-${key}`} className="text-xs">{label}</Label>
+      <Input
+        id={`pagination-${key}`}
+        placeholder={placeholder}
+        value={(current[key] as string) || ''}
+        onChange={(e) => update({ [key]: e.target.value || undefined })}
+        className="h-8 font-mono text-xs"
+      />
+    </div>
+  );
+
+  const numberField = (key: 'firstPage' | 'maxPageSize', label: string, placeholder: string) => (
+    <div className="space-y-1">
+      <Label htmlFor={`pagination-${key}`} className="text-xs">{label}</Label>
+      <Input
+        id={`pagination-${key}`}
+        type="number"
+        min={0}
+        placeholder={placeholder}
+        value={current[key] ?? ''}
+        onChange={(e) => update({ [key]: e.target.value === '' ? undefined : parseInt(e.target.value, 10) })}
+        className="h-8 font-mono text-xs"
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      <Label className="flex items-center gap-1">
+        <Layers className="h-3.5 w-3.5" />
+        <span>Pagination</span>
+      </Label>
+      <Select value={current.style} onValueChange={(value: PaginationStyle) => update({ style: value })}>
+        <SelectTrigger>
+          <SelectValue placeholder="Select pagination style" />
+        </SelectTrigger>
+        <SelectContent>
+          {PAGINATION_STYLES.map(item => (
+            <SelectItem key={item.id} value={item.id}>{item.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {style && <p className="text-xs text-muted-foreground">{style.description}</p>}
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+        {current.style === 'offset' && textField('offsetParam', 'Offset parameter', 'offset')}
+        {current.style === 'page' && textField('pageParam', 'Page parameter', 'page')}
+        {current.style === 'page' && numberField('firstPage', 'First page number', '1')}
+        {current.style === 'cursor' && textField('cursorParam', 'Cursor parameter', 'cursor')}
+        {current.style === 'cursor' && textField('nextPath', 'Next cursor / URL path', 'meta.next_cursor')}
+        {current.style !== 'none' && textField('limitParam', 'Page size parameter', 'limit')}
+        {current.style !== 'none' && numberField('maxPageSize', 'Max page size', 'No limit')}
+        {textField('totalPath', 'Total count path', 'total')}
+        {textField('totalHeader', 'Total count header', 'X-Total-Count')}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        When the API reports no total, the remaining pages are walked to count the results.
+      </p>
+    </div>
+  );
+};
+
+export default PaginationConfigEditor;
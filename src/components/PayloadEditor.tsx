@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, CheckCircle2, Save, Trash2, Wand2 } from "lucide-react";
+import { toast } from "sonner";
+import { ValidationIssue } from '@/utils/scimValidation';
+import { ScimResourceType } from '@/utils/scimUtils';
+import { PayloadPreset } from '@/models/ApplicationConfig';
+
+interface PayloadEditorProps {
+  resourceType: ScimResourceType;
+  value: string;
+  onChange: (value: string) => void;
+  // JSON syntax and SCIM schema problems found in value
+  issues: ValidationIssue[];
+  presets: PayloadPreset[];
+  onPresetsChange: (presets: PayloadPreset[]) => void;
+}
+
+const PayloadEditor: React.FC<PayloadEditorProps> = ({ resourceType, value, onChange, issues, presets, onPresetsChange }) => {
+  const [presetName, setPresetName] = useState('');
+  const [selectedPreset, setSelectedPreset] = useState('');
+
+  const errors = issues.filter(issue => issue.severity === 'error');
+  const warnings = issues.filter(issue => issue.severity === 'warning');
+
+  const handleFormat = () => {
+    try {
+      onChange(JSON.stringify(JSON.parse(value), null, 2));
+    } catch {
+      toast.error('Cannot format invalid JSON');
+    }
+  };
+
+  const handleLoad = (name: string) => {
+    const preset = presets.find(item => item.name === name);
+    if (preset) {
+      setSelectedPreset(name);
+      setPresetName(name);
+      onChange(preset.payload);
+    }
+  };
+
+  const handleSave = () => {
+    const name = presetName.trim();
+    if (!name) {
+      toast.error('Enter a preset name');
+      return;
+    }
+    // Saving under an existing name overwrites that preset
+    const existing = presets.some(item => item.name === name);
+    onPresetsChange(existing
+      ? presets.map(item => item.name === name ? { name, payload: value } : item)
+      : [...presets, { name, payload: value }]);
+    setSelectedPreset(name);
+    toast.success(existing ? 'Preset updated' : 'Preset saved', { description: name });
+  };
+
+  const handleDelete = () => {
+    onPresetsChange(presets.filter(item => item.name !== selectedPreset));
+    setSelectedPreset('');
+    setPresetName('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-1 sm:grid-cols-[1fr,1fr,auto,auto] gap-2">
+        <Select value={selectedPreset} onValueChange={handleLoad} disabled={presets.length === 0}>
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue placeholder={presets.length === 0 ? 'No saved presets' : 'Load preset'} />
+          </SelectTrigger>
+          <SelectContent>
+            {presets.map(preset => (
+              <SelectItem key={preset.name} value={preset.name}>{preset.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          placeholder="Preset name"
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          className="h-8 text-xs"
+        />
+        <Button variant="outline" size="sm" className="h-8" onClick={handleSave}>
+          <Save className="h-3.5 w-3.5 mr-1" />
+          Save
+        </Button>
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={handleDelete} disabled={!selectedPreset}>
+          <Trash2 className="h-3.5 w-3.5 text-muted-foreground" />
+        </Button>
+      </div>
+
+      <div className="relative">
+        <Textarea
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          spellCheck={false}
+          className={`h-60 font-mono text-xs ${errors.length > 0 ? 'border-destructive' : ''}`}
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          className="absolute top-2 right-4 h-7 text-xs"
+          onClick={handleFormat}
+        >
+          <Wand2 className="h-3 w-3 mr-1" />
+          Format
+        </Button>
+      </div>
+
+      {issues.length === 0 ? (
+        <p className="flex items-center gap-1 text-xs text-green-600">
+          <CheckCircle2 className="h-3.5 w-3.5" />
+          Valid SCIM {resourceType}
+        </p>
+      ) : (
+        <div className="text-xs space-y-0.5">
+          {errors.map((issue, index) => (
+            <p key={`error-${index}`} className="flex items-start gap-1 text-destructive">
+              <AlertTriangle className="h-3.5 w-3.5 flex-shrink-0 mt-0.5" />
+              <span>{issue.path && <code>{issue.path}</code>} {issue.message}</span>
+            </p>
+          ))}
+          {warnings.map((issue, index) => (
+            <p key={`warning-${index}`} className="flex items-start gap-1 text-amber-600">
+              <AlertTriangle className="h-3.5 w-3.5 flex-shrink-0 mt-0.5" />
+              <span>{issue.path && <code>{issue.path}</code>} {issue.message}</span>
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PayloadEditor;
@@ -49,6 +49,11 @@ const RequestDetailDialog: React.FC<RequestDetailDialogProps> = ({ open, onOpenC
     let baseUrl = historyItem.baseUrl || '';
     const endpoint = historyItem.endpoint || '';
     
+    // Followed links (e.g. next pages) are recorded as absolute URLs
+    if (/^https?:\/\//i.test(endpoint)) {
+      return endpoint;
+    }
+    
     // Ensure there's no double slash between baseUrl and endpoint
     if (baseUrl && baseUrl.endsWith('/') && endpoint.startsWith('/')) {
       return baseUrl + endpoint.substring(1);
@@ -0,0 +1,229 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
+import { Blocks, Plus, Save, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  ATTRIBUTE_MUTABILITIES,
+  ATTRIBUTE_RETURNED,
+  ATTRIBUTE_TYPES,
+  createExtensionAttribute,
+  ExtensionAttribute,
+  SchemaExtension,
+  validateSchemaExtension
+} from '@/models/SchemaExtension';
+
+interface SchemaExtensionsEditorProps {
+  initialExtensions?: SchemaExtension[];
+  onSave: (extensions: SchemaExtension[]) => void;
+}
+
+const SchemaExtensionsEditor: React.FC<SchemaExtensionsEditorProps> = ({ initialExtensions, onSave }) => {
+  const [extensions, setExtensions] = useState<SchemaExtension[]>([]);
+
+  useEffect(() => {
+    setExtensions(initialExtensions || []);
+  }, [initialExtensions]);
+
+  const getError = (index: number) =>
+    validateSchemaExtension(extensions[index], extensions.filter((_, i) => i !== index));
+
+  const updateExtension = (index: number, updates: Partial<SchemaExtension>) => {
+    const newExtensions = [...extensions];
+    newExtensions[index] = { ...newExtensions[index], ...updates };
+    setExtensions(newExtensions);
+  };
+
+  const updateAttribute = (index: number, attributeIndex: number, updates: Partial<ExtensionAttribute>) => {
+    const attributes = [...extensions[index].attributes];
+    attributes[attributeIndex] = { ...attributes[attributeIndex], ...updates };
+    updateExtension(index, { attributes });
+  };
+
+  const handleAddExtension = () => {
+    setExtensions([...extensions, {
+      urn: 'urn:acme:scim:schemas:extension:2.0:User',
+      name: 'AcmeUser',
+      resourceType: 'User',
+      attributes: [createExtensionAttribute('employeeType')]
+    }]);
+  };
+
+  const handleSave = () => {
+    const invalid = extensions.findIndex((_, index) => getError(index));
+    if (invalid >= 0) {
+      toast.error('Invalid schema extension', {
+        description: getError(invalid),
+      });
+      return;
+    }
+    onSave(extensions.map(extension => ({ ...extension, urn: extension.urn.trim(), name: extension.name.trim() })));
+  };
+
+  return (
+    <Card className="w-full shadow-card animate-scale-in">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Blocks className="h-5 w-5 text-primary" />
+          <span>Schema Extensions</span>
+        </CardTitle>
+        <CardDescription>
+          Declare custom extension schemas. Their attributes become mapping targets and are published under /Schemas.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {extensions.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-4">No custom extensions declared.</p>
+        )}
+
+        {extensions.map((extension, index) => (
+          <div key={index} className="rounded-md border border-border p-3 space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-[2fr,1fr,auto,auto] gap-2 items-end">
+              <div className="space-y-1">
+                <Label className="text-xs">URN</Label>
+                <Input
+                  value={extension.urn}
+                  onChange={(e) => updateExtension(index, { urn: e.target.value })}
+                  className="h-8 font-mono text-xs"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Name</Label>
+                <Input
+                  value={extension.name}
+                  onChange={(e) => updateExtension(index, { name: e.target.value })}
+                  className="h-8 text-xs"
+                />
+              </div>
+              <Select
+                value={extension.resourceType}
+                onValueChange={(value: SchemaExtension['resourceType']) => updateExtension(index, { resourceType: value })}
+              >
+                <SelectTrigger className="h-8 w-24 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="User">User</SelectItem>
+                  <SelectItem value="Group">Group</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => setExtensions(extensions.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="h-3.5 w-3.5 text-muted-foreground" />
+              </Button>
+            </div>
+            {getError(index) && <p className="text-xs text-destructive">{getError(index)}</p>}
+
+            <div className="space-y-2">
+              {extension.attributes.map((attribute, attributeIndex) => (
+                <div key={attributeIndex} className="rounded border border-dashed border-border p-2 space-y-2">
+                  <div className="grid grid-cols-2 md:grid-cols-[1.5fr,1fr,1fr,1fr,auto] gap-2">
+                    <Input
+                      placeholder="attributeName"
+                      value={attribute.name}
+                      onChange={(e) => updateAttribute(index, attributeIndex, { name: e.target.value })}
+                      className="h-8 font-mono text-xs"
+                    />
+                    <Select
+                      value={attribute.type}
+                      onValueChange={(value: ExtensionAttribute['type']) => updateAttribute(index, attributeIndex, { type: value })}
+                    >
+                      <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {ATTRIBUTE_TYPES.map(type => <SelectItem key={type} value={type}>{type}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                    <Select
+                      value={attribute.mutability}
+                      onValueChange={(value: ExtensionAttribute['mutability']) => updateAttribute(index, attributeIndex, { mutability: value })}
+                    >
+                      <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {ATTRIBUTE_MUTABILITIES.map(item => <SelectItem key={item} value={item}>{item}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                    <Select
+                      value={attribute.returned}
+                      onValueChange={(value: ExtensionAttribute['returned']) => updateAttribute(index, attributeIndex, { returned: value })}
+                    >
+                      <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {ATTRIBUTE_RETURNED.map(item => <SelectItem key={item} value={item}>returned: {item}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => updateExtension(index, {
+                        attributes: extension.attributes.filter((_, i) => i !== attributeIndex)
+                      })}
+                    >
+                      <Trash2 className="h-3.5 w-3.5 text-muted-foreground" />
+                    </Button>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-4">
+                    <label className="flex items-center gap-2 text-xs">
+                      <Switch
+                        checked={attribute.multiValued}
+                        onCheckedChange={(checked) => updateAttribute(index, attributeIndex, { multiValued: checked })}
+                      />
+                      Multi-valued
+                    </label>
+                    <label className="flex items-center gap-2 text-xs">
+                      <Switch
+                        checked={attribute.required}
+                        onCheckedChange={(checked) => updateAttribute(index, attributeIndex, { required: checked })}
+                      />
+                      Required
+                    </label>
+                    <Input
+                      placeholder="Canonical values, comma separated"
+                      value={(attribute.canonicalValues || []).join(', ')}
+                      onChange={(e) => {
+                        const canonicalValues = e.target.value.split(',').map(value => value.trim()).filter(Boolean);
+                        updateAttribute(index, attributeIndex, { canonicalValues: canonicalValues.length > 0 ? canonicalValues : undefined });
+                      }}
+                      className="h-8 text-xs flex-1 min-w-[12rem]"
+                    />
+                  </div>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-7"
+                onClick={() => updateExtension(index, { attributes: [...extension.attributes, createExtensionAttribute()] })}
+              >
+                <Plus className="h-3 w-3 mr-1" />
+                Attribute
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+      <Separator />
+      <CardFooter className="flex justify-between pt-6">
+        <Button variant="outline" onClick={handleAddExtension}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Extension
+        </Button>
+        <Button onClick={handleSave}>
+          <Save className="h-4 w-4 mr-2" />
+          Save Extensions
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+};
+
+export default SchemaExtensionsEditor;
@@ -9,48 +9,79 @@ import { Separator } from "@/components/ui/separator";
 import { Switch } from "@/components/ui/switch";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { ArrowRight, Info, Plus, RefreshCw, Save, Trash2 } from "lucide-react";
+import { ArrowRight, Info, Plus, RefreshCw, Save, Settings2, Trash2 } from "lucide-react";
 import { toast } from "sonner";
 import { apiService } from "@/utils/apiService";
+import { collectReferences, expressionFunctions, validateExpression } from "@/utils/expression";
+import { ARRAY_WILDCARD, getSourceArrayPath, getWriteSkipReason, RESERVED_SCOPE_NAMES, ScimResourceType } from "@/utils/scimUtils";
+import { MappingItem, TransformVariable } from "@/models/ApplicationConfig";
+import { getResourceEndpoint } from "@/models/ConnectorProfile";
+import { SchemaExtension } from "@/models/SchemaExtension";
+import { getMappingTargets } from "@/models/ScimSchemaCatalog";
+import MultiValuedMappingEditor from "./MultiValuedMappingEditor";
+import MappingOptionsEditor from "./MappingOptionsEditor";
+import ScimAttributePicker from "./ScimAttributePicker";
 
-// Sample SCIM attributes
-const scimAttributes = [
-  { id: 'userName', name: 'Username', required: true },
-  { id: 'name.givenName', name: 'First Name', required: true },
-  { id: 'name.familyName', name: 'Last Name', required: true },
-  { id: 'displayName', name: 'Display Name', required: false },
-  { id: 'emails[0].value', name: 'Primary Email', required: true },
-  { id: 'active', name: 'Active Status', required: false },
-  { id: 'externalId', name: 'External ID', required: false },
-  { id: 'phoneNumbers[0].value', name: 'Phone Number', required: false },
+const defaultUserMappings: MappingItem[] = [
+  { scimAttribute: 'userName', sourceField: '', isRequired: true },
+  { scimAttribute: 'name.givenName', sourceField: '', isRequired: true },
+  { scimAttribute: 'name.familyName', sourceField: '', isRequired: true },
+  { scimAttribute: 'emails[0].value', sourceField: '', isRequired: true },
+  { scimAttribute: 'active', sourceField: '', isRequired: false },
 ];
 
-interface MappingItem {
-  scimAttribute: string;
-  sourceField: string;
-  isRequired: boolean;
-  transformation?: string;
-}
+const fallbackGroupFields = [
+  { id: 'id', name: 'id' },
+  { id: 'name', name: 'name' },
+  { id: `members${ARRAY_WILDCARD}`, name: `members${ARRAY_WILDCARD}` },
+];
+
+// Members are mapped to user ids; `$ref` and missing display names are resolved from the User mapping
+const defaultGroupMappings: MappingItem[] = [
+  { scimAttribute: 'displayName', sourceField: '', isRequired: true },
+  { scimAttribute: 'externalId', sourceField: '', isRequired: false },
+];
 
 interface SchemaMapperProps {
-  onMappingSave: (mappings: MappingItem[]) => void;
+  onMappingSave: (mappings: MappingItem[], variables: TransformVariable[]) => void;
   initialMappings?: MappingItem[];
+  initialVariables?: TransformVariable[];
   applicationId?: string;
+  // Which mapping set is edited; variables are only offered for users
+  resourceType?: ScimResourceType;
+  // Custom extensions whose attributes are offered as mapping targets
+  schemaExtensions?: SchemaExtension[];
 }
 
+// Select value for mappings computed from an expression instead of a single field
+const COMPUTED_SOURCE = '__computed__';
+
+// Turn a discovered field path into an expression reference on `source`
+const toSourceReference = (path: string) => {
+  return path.split('.').reduce((expression, part) => (
+    /^[A-Za-z_$][\w$]*(\[\d+\])*$/.test(part)
+      ? `${expression}.${part}`
+      : `${expression}[${JSON.stringify(part)}]`
+  ), 'source');
+};
+
 const SchemaMapper: React.FC<SchemaMapperProps> = ({ 
   onMappingSave, 
   initialMappings,
-  applicationId 
+  initialVariables,
+  applicationId,
+  resourceType = 'User',
+  schemaExtensions = []
 }) => {
-  const [mappings, setMappings] = useState<MappingItem[]>([
-    { scimAttribute: 'userName', sourceField: '', isRequired: true },
-    { scimAttribute: 'name.givenName', sourceField: '', isRequired: true },
-    { scimAttribute: 'name.familyName', sourceField: '', isRequired: true },
-    { scimAttribute: 'emails[0].value', sourceField: '', isRequired: true },
-    { scimAttribute: 'active', sourceField: '', isRequired: false },
-  ]);
+  const isGroup = resourceType === 'Group';
+  // Standard attributes from the RFC 7643 catalog plus the application's own extensions
+  const scimAttributes = getMappingTargets(resourceType, schemaExtensions);
+  const [mappings, setMappings] = useState<MappingItem[]>(() => (
+    (isGroup ? defaultGroupMappings : defaultUserMappings).map(mapping => ({ ...mapping }))
+  ));
   
+  const [variables, setVariables] = useState<TransformVariable[]>([]);
+  const [expandedOptions, setExpandedOptions] = useState<Set<number>>(new Set());
   const [isLoading, setIsLoading] = useState(false);
   const [sourceFields, setSourceFields] = useState<{id: string, name: string}[]>([]);
   const [isLoadingFields, setIsLoadingFields] = useState(false);
@@ -63,6 +94,11 @@ const SchemaMapper: React.FC<SchemaMapperProps> = ({
     }
   }, [initialMappings]);
   
+  // Load initial variables if provided
+  useEffect(() => {
+    setVariables(initialVariables || []);
+  }, [initialVariables]);
+  
   // Extract all fields including nested ones from an object
   const extractFields = (obj: any, prefix = '') => {
     let fields: {id: string, name: string}[] = [];
@@ -89,6 +125,11 @@ const SchemaMapper: React.FC<SchemaMapperProps> = ({
         fields = [...fields, ...extractFields(value, fieldPath)];
       }
       
+      // Arrays can feed multi-valued mappings element by element
+      if (Array.isArray(value) && value.length > 0) {
+        fields.push({ id: `${fieldPath}${ARRAY_WILDCARD}`, name: `${fieldPath}${ARRAY_WILDCARD}` });
+      }
+      
       // Handle array of objects
       if (Array.isArray(value) && value.length > 0 && typeof value[0] === 'object') {
         fields.push({ id: `${fieldPath}[0]`, name: `${fieldPath}[0]` });
@@ -124,14 +165,8 @@ const SchemaMapper: React.FC<SchemaMapperProps> = ({
         setIsLoadingFields(true);
         setFieldsFetchFailed(false);
         
-        // For DummyJSON or JSONPlaceholder, we need to use a specific endpoint
-        let endpoint = '';
-        if (config.baseUrl.includes('dummyjson.com') || config.baseUrl.includes('jsonplaceholder.typicode.com')) {
-          endpoint = '1'; // Fetch first user
-        }
-
-        // Fetch a sample user from the API
-        const response = await apiService.fetchData(endpoint, { method: 'GET' }, applicationId);
+        // Fetch a sample record from the API
+        const response = await apiService.fetchSampleRecord(applicationId, resourceType);
         
         if (response) {
           // Extract all fields including nested ones
@@ -145,7 +180,7 @@ const SchemaMapper: React.FC<SchemaMapperProps> = ({
           
           // Set default mappings based on the response if no initial mappings
           if (!initialMappings || initialMappings.length === 0) {
-            updateDefaultMappings(response);
+            applyDefaultMappings(response);
           }
         } else {
           throw new Error('No data returned from API');
@@ -158,7 +193,7 @@ const SchemaMapper: React.FC<SchemaMapperProps> = ({
         });
         
         // Set default fields as fallback
-        setSourceFields([
+        setSourceFields(isGroup ? fallbackGroupFields : [
           { id: 'id', name: 'id' },
           { id: 'username', name: 'username' },
           { id: 'name', name: 'name' },
@@ -173,10 +208,16 @@ const SchemaMapper: React.FC<SchemaMapperProps> = ({
       }
     };
 
+    // Groups can only be sampled once the connector profile says where they are
+    if (isGroup && !getResourceEndpoint(apiService.getConnectorProfile(applicationId), 'Group')) {
+      setSourceFields(fallbackGroupFields);
+      return;
+    }
+
     if (applicationId) {
       fetchSourceFields();
     }
-  }, [applicationId, initialMappings]);
+  }, [applicationId, initialMappings, resourceType]);
   
   // Manual refresh of fields
   const handleRefreshFields = async () => {
@@ -193,14 +234,8 @@ const SchemaMapper: React.FC<SchemaMapperProps> = ({
         setIsLoadingFields(true);
         setFieldsFetchFailed(false);
         
-        // For DummyJSON or JSONPlaceholder, we need to use a specific endpoint
-        let endpoint = '';
-        if (config.baseUrl.includes('dummyjson.com') || config.baseUrl.includes('jsonplaceholder.typicode.com')) {
-          endpoint = '1'; // Fetch first user
-        }
-
-        // Fetch a sample user from the API
-        const response = await apiService.fetchData(endpoint, { method: 'GET' }, applicationId);
+        // Fetch a sample record from the API
+        const response = await apiService.fetchSampleRecord(applicationId, resourceType);
         
         if (response) {
           // Extract all fields including nested ones
@@ -213,7 +248,7 @@ const SchemaMapper: React.FC<SchemaMapperProps> = ({
           });
           
           // Update default mappings based on the response
-          updateDefaultMappings(response);
+          applyDefaultMappings(response);
         } else {
           throw new Error('No data returned from API');
         }
@@ -231,6 +266,20 @@ const SchemaMapper: React.FC<SchemaMapperProps> = ({
     fetchSourceFields();
   };
   
+  // Use the connector profile's default mappings, or guess them from the response
+  const applyDefaultMappings = (userResponse: unknown) => {
+    if (isGroup) {
+      updateDefaultGroupMappings(userResponse);
+      return;
+    }
+    const { defaultMappings } = apiService.getConnectorProfile(applicationId);
+    if (defaultMappings.length > 0) {
+      setMappings(defaultMappings.map(mapping => ({ ...mapping })));
+      return;
+    }
+    updateDefaultMappings(userResponse);
+  };
+  
   // Update default mappings based on the API response
   const updateDefaultMappings = (userResponse: any) => {
     const newMappings = [...mappings];
@@ -248,7 +297,7 @@ const SchemaMapper: React.FC<SchemaMapperProps> = ({
       const index = newMappings.findIndex(m => m.scimAttribute === 'name.givenName');
       if (index >= 0) newMappings[index].sourceField = 'firstName';
     } else if (userResponse.name && typeof userResponse.name === 'string') {
-      // For JSONPlaceholder where name is a single string
+      // For APIs where name is a single string
       const index = newMappings.findIndex(m => m.scimAttribute === 'name.givenName');
       if (index >= 0) {
         newMappings[index].sourceField = 'name';
@@ -264,7 +313,7 @@ const SchemaMapper: React.FC<SchemaMapperProps> = ({
       const index = newMappings.findIndex(m => m.scimAttribute === 'name.familyName');
       if (index >= 0) newMappings[index].sourceField = 'lastName';
     } else if (userResponse.name && typeof userResponse.name === 'string') {
-      // For JSONPlaceholder where name is a single string
+      // For APIs where name is a single string
       const index = newMappings.findIndex(m => m.scimAttribute === 'name.familyName');
       if (index >= 0) {
         newMappings[index].sourceField = 'name';
@@ -343,7 +392,7 @@ const SchemaMapper: React.FC<SchemaMapperProps> = ({
           transformation: 'value + " " + (source.lastName || "")'
         });
       } else if (userResponse.name && typeof userResponse.name === 'string') {
-        // For APIs with just name as a string (like JSONPlaceholder)
+        // For APIs with just name as a string
         newMappings.push({
           scimAttribute: 'displayName',
           sourceField: 'name',
@@ -373,9 +422,42 @@ const SchemaMapper: React.FC<SchemaMapperProps> = ({
     setMappings(newMappings);
   };
   
+  // Guess group mappings from common field names
+  const updateDefaultGroupMappings = (response: unknown) => {
+    if (!response || typeof response !== 'object') {
+      return;
+    }
+    const groupResponse = response as Record<string, unknown>;
+    const nameField = ['displayName', 'name', 'title'].find(field => typeof groupResponse[field] === 'string');
+    const membersField = ['members', 'users', 'userIds', 'memberIds'].find(field => Array.isArray(groupResponse[field]));
+    const first = membersField ? (groupResponse[membersField] as unknown[])[0] : undefined;
+    
+    const newMappings: MappingItem[] = [
+      { scimAttribute: 'displayName', sourceField: nameField || '', isRequired: true },
+      {
+        scimAttribute: 'externalId',
+        sourceField: 'id' in groupResponse ? 'id' : '',
+        isRequired: false,
+        transformation: 'id' in groupResponse ? 'String(value)' : undefined
+      },
+    ];
+    if (membersField) {
+      // Members are either bare ids or objects carrying one
+      newMappings.push({
+        scimAttribute: 'members',
+        sourceField: `${membersField}${ARRAY_WILDCARD}`,
+        isRequired: false,
+        multiValued: {
+          subMappings: [{ subAttribute: 'value', sourceField: first && typeof first === 'object' ? 'id' : '' }]
+        }
+      });
+    }
+    setMappings(newMappings);
+  };
+  
   const handleAddMapping = () => {
     const unmappedScimAttr = scimAttributes.find(attr => 
-      !mappings.some(map => map.scimAttribute === attr.id)
+      attr.selectable && !mappings.some(map => map.scimAttribute === attr.id)
     );
     
     if (unmappedScimAttr) {
@@ -386,7 +468,7 @@ const SchemaMapper: React.FC<SchemaMapperProps> = ({
       }]);
     } else {
       toast.info('All SCIM attributes are already mapped.', {
-        description: 'To add custom attributes, use the custom mapping option.',
+        description: 'Declare a schema extension to map additional attributes.',
       });
     }
   };
@@ -395,29 +477,156 @@ const SchemaMapper: React.FC<SchemaMapperProps> = ({
     const newMappings = [...mappings];
     newMappings.splice(index, 1);
     setMappings(newMappings);
+    setExpandedOptions(new Set());
   };
   
   const updateMapping = (index: number, field: string, value: string | boolean) => {
     const newMappings = [...mappings];
     newMappings[index] = { ...newMappings[index], [field]: value };
     
-    // If the SCIM attribute is changed, update the required flag
+    // If the SCIM attribute is changed, update the required flag and mapping mode
     if (field === 'scimAttribute') {
       const scimAttr = scimAttributes.find(attr => attr.id === value);
       if (scimAttr) {
         newMappings[index].isRequired = scimAttr.required;
       }
+      
+      const wasMultiValued = !!newMappings[index].multiValued;
+      if (scimAttr?.multiValued && !wasMultiValued) {
+        newMappings[index].sourceField = '';
+        newMappings[index].transformation = undefined;
+        newMappings[index].multiValued = {
+          subMappings: [{ subAttribute: scimAttr.subAttributes[0], sourceField: '' }]
+        };
+      } else if (!scimAttr?.multiValued && wasMultiValued) {
+        newMappings[index].sourceField = '';
+        newMappings[index].multiValued = undefined;
+      }
+    }
+    
+    setMappings(newMappings);
+  };
+  
+  const handleSourceFieldChange = (index: number, value: string) => {
+    const newMappings = [...mappings];
+    
+    if (value === COMPUTED_SOURCE) {
+      // Computed mappings read everything they need through `source`
+      newMappings[index] = {
+        ...newMappings[index],
+        sourceField: '',
+        transformation: newMappings[index].transformation || '""'
+      };
+    } else {
+      newMappings[index] = { ...newMappings[index], sourceField: value };
     }
     
     setMappings(newMappings);
   };
   
+  const handleInsertSourceField = (index: number, fieldPath: string) => {
+    const current = mappings[index].transformation || '';
+    const reference = toSourceReference(fieldPath);
+    const transformation = !current.trim() || current.trim() === '""'
+      ? reference
+      : `${current} + " " + ${reference}`;
+    updateMapping(index, 'transformation', transformation);
+  };
+  
+  // Whether any of the settings behind the options toggle are in use
+  const hasMappingOptions = (mapping: MappingItem) =>
+    !!mapping.queryParams || !!mapping.direction || !!mapping.inverseTransformation;
+  
+  const isComputedMapping = (mapping: MappingItem) => !mapping.multiValued && !mapping.sourceField && !!mapping.transformation;
+  
+  const updateMappingFields = (index: number, updates: Partial<MappingItem>) => {
+    const newMappings = [...mappings];
+    newMappings[index] = { ...newMappings[index], ...updates };
+    setMappings(newMappings);
+  };
+  
+  const toggleOptions = (index: number) => {
+    const next = new Set(expandedOptions);
+    if (next.has(index)) {
+      next.delete(index);
+    } else {
+      next.add(index);
+    }
+    setExpandedOptions(next);
+  };
+  
+  // Fields discovered on the first element of a source array, relative to the element
+  const getElementFields = (sourceField: string) => {
+    const prefix = `${getSourceArrayPath(sourceField)}[0].`;
+    return sourceFields
+      .filter(field => field.id.startsWith(prefix))
+      .map(field => field.id.substring(prefix.length));
+  };
+  
+  const getSubAttributes = (scimAttribute: string) => {
+    return scimAttributes.find(attr => attr.id === scimAttribute)?.subAttributes || ['value', 'type', 'primary', 'display'];
+  };
+  
+  const handleAddVariable = () => {
+    setVariables([...variables, { name: `var${variables.length + 1}`, expression: '' }]);
+  };
+  
+  const handleRemoveVariable = (index: number) => {
+    setVariables(variables.filter((_, i) => i !== index));
+  };
+  
+  const updateVariable = (index: number, field: keyof TransformVariable, value: string) => {
+    const newVariables = [...variables];
+    newVariables[index] = { ...newVariables[index], [field]: value };
+    setVariables(newVariables);
+  };
+  
+  const validateVariableName = (name: string, index: number): string | null => {
+    if (!/^[A-Za-z_$][\w$]*$/.test(name)) {
+      return 'Use letters, digits, _ or $ and do not start with a digit';
+    }
+    if (RESERVED_SCOPE_NAMES.includes(name) || name in expressionFunctions) {
+      return `"${name}" is reserved`;
+    }
+    if (variables.some((v, i) => i !== index && v.name === name)) {
+      return `"${name}" is already defined`;
+    }
+    return null;
+  };
+  
   const handleSaveMapping = () => {
     setIsLoading(true);
     
+    const invalidVariable = variables.find((variable, index) =>
+      validateVariableName(variable.name, index) || !variable.expression.trim() || validateExpression(variable.expression)
+    );
+    
+    if (invalidVariable) {
+      toast.error('Invalid variable', {
+        description: `Please fix the definition of "${invalidVariable.name}".`,
+      });
+      setIsLoading(false);
+      return;
+    }
+    
     // Validate mappings
+    const invalidTransformation = mappings.find(mapping =>
+      validateExpression(mapping.transformation) ||
+      validateExpression(mapping.inverseTransformation) ||
+      validateExpression(mapping.multiValued?.elementFilter) ||
+      mapping.multiValued?.subMappings.some(sub => validateExpression(sub.transformation))
+    );
+    
+    if (invalidTransformation) {
+      toast.error('Invalid transformation', {
+        description: `Please fix the expressions used by ${getScimAttributeName(invalidTransformation.scimAttribute)}.`,
+      });
+      setIsLoading(false);
+      return;
+    }
+    
     const requiredMissing = mappings.some(mapping => 
-      mapping.isRequired && !mapping.sourceField
+      mapping.isRequired && !mapping.sourceField && !mapping.transformation
     );
     
     if (requiredMissing) {
@@ -430,7 +639,7 @@ const SchemaMapper: React.FC<SchemaMapperProps> = ({
     
     // Simulate saving delay
     setTimeout(() => {
-      onMappingSave(mappings);
+      onMappingSave(mappings, variables);
       setIsLoading(false);
       toast.success('Mappings saved successfully', {
         description: 'Your schema mappings have been saved and are ready to use.',
@@ -446,9 +655,11 @@ const SchemaMapper: React.FC<SchemaMapperProps> = ({
   return (
     <Card className="w-full shadow-card animate-scale-in">
       <CardHeader>
-        <CardTitle>Schema Mapping</CardTitle>
+        <CardTitle>{isGroup ? 'Group Schema Mapping' : 'Schema Mapping'}</CardTitle>
         <CardDescription>
-          Map your source API fields to SCIM schema attributes. Required attributes are marked with an asterisk (*).
+          {isGroup
+            ? 'Map your source API group fields to SCIM Group attributes. Members are resolved to SCIM Users through the user mapping.'
+            : 'Map your source API fields to SCIM schema attributes.'} Required attributes are marked with an asterisk (*).
           {isLoadingFields && " Loading source fields..."}
         </CardDescription>
       </CardHeader>
@@ -486,82 +697,138 @@ const SchemaMapper: React.FC<SchemaMapperProps> = ({
                 <TableHead className="w-1/3">SCIM Attribute</TableHead>
                 <TableHead className="w-1/3">Source Field</TableHead>
                 <TableHead className="w-1/4">Transformation</TableHead>
-                <TableHead className="w-1/12 text-right">Actions</TableHead>
+                <TableHead className="w-24 text-right">Actions</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
               {mappings.map((mapping, index) => (
-                <TableRow key={index} className="group transition-all-200 hover:bg-secondary/20">
-                  <TableCell>
-                    <Select
-                      value={mapping.scimAttribute}
-                      onValueChange={(value) => updateMapping(index, 'scimAttribute', value)}
-                    >
-                      <SelectTrigger className="bg-transparent">
-                        <SelectValue placeholder="Select attribute">
-                          {mapping.isRequired ? (
-                            <span>
-                              {getScimAttributeName(mapping.scimAttribute)}
-                              <span className="text-destructive">*</span>
-                            </span>
-                          ) : (
-                            getScimAttributeName(mapping.scimAttribute)
-                          )}
-                        </SelectValue>
-                      </SelectTrigger>
-                      <SelectContent>
-                        {scimAttributes
-                          .filter(attr => 
-                            attr.id === mapping.scimAttribute || 
-                            !mappings.some(m => m.scimAttribute === attr.id)
-                          )
-                          .map((attr) => (
-                            <SelectItem key={attr.id} value={attr.id}>
-                              {attr.name}
-                              {attr.required && <span className="text-destructive ml-1">*</span>}
+                <React.Fragment key={index}>
+                  <TableRow className="group transition-all-200 hover:bg-secondary/20">
+                    <TableCell>
+                      <ScimAttributePicker
+                        targets={scimAttributes}
+                        value={mapping.scimAttribute}
+                        isRequired={mapping.isRequired}
+                        mappedIds={mappings.map(m => m.scimAttribute)}
+                        onChange={(value) => updateMapping(index, 'scimAttribute', value)}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={isComputedMapping(mapping) ? COMPUTED_SOURCE : mapping.sourceField}
+                        onValueChange={(value) => handleSourceFieldChange(index, value)}
+                      >
+                        <SelectTrigger className="bg-transparent">
+                          <SelectValue placeholder="Select field" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {!mapping.multiValued && (
+                            <SelectItem value={COMPUTED_SOURCE}>
+                              <span className="italic">Computed (expression)</span>
                             </SelectItem>
-                          ))
-                        }
-                      </SelectContent>
-                    </Select>
-                  </TableCell>
-                  <TableCell>
-                    <Select
-                      value={mapping.sourceField}
-                      onValueChange={(value) => updateMapping(index, 'sourceField', value)}
-                    >
-                      <SelectTrigger className="bg-transparent">
-                        <SelectValue placeholder="Select field" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {sourceFields.map((field) => (
-                          <SelectItem key={field.id} value={field.id}>
-                            {field.name}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                  </TableCell>
-                  <TableCell>
-                    <Input
-                      placeholder="Optional transformation"
-                      value={mapping.transformation || ''}
-                      onChange={(e) => updateMapping(index, 'transformation', e.target.value)}
-                      className="bg-transparent"
-                    />
-                  </TableCell>
-                  <TableCell className="text-right">
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => handleRemoveMapping(index)}
-                      disabled={mapping.isRequired}
-                      className={`opacity-0 group-hover:opacity-100 transition-opacity ${mapping.isRequired ? 'cursor-not-allowed' : ''}`}
-                    >
-                      <Trash2 className="h-4 w-4 text-muted-foreground" />
-                    </Button>
-                  </TableCell>
-                </TableRow>
+                          )}
+                          {sourceFields
+                            .filter(field => !!mapping.multiValued === field.id.endsWith(ARRAY_WILDCARD))
+                            .map((field) => (
+                              <SelectItem key={field.id} value={field.id}>
+                                {field.name}
+                              </SelectItem>
+                            ))
+                          }
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      {mapping.multiValued ? (
+                        <p className="text-xs text-muted-foreground">Per element, see below</p>
+                      ) : (
+                        <Input
+                          placeholder="Optional transformation"
+                          value={mapping.transformation || ''}
+                          onChange={(e) => updateMapping(index, 'transformation', e.target.value)}
+                          className={`bg-transparent font-mono text-xs ${validateExpression(mapping.transformation) ? 'border-destructive' : ''}`}
+                          title={`Available functions: ${Object.keys(expressionFunctions).join(', ')}`}
+                        />
+                      )}
+                      {validateExpression(mapping.transformation) && (
+                        <p className="text-xs text-destructive mt-1">
+                          {validateExpression(mapping.transformation)}
+                        </p>
+                      )}
+                      {mapping.transformation && getWriteSkipReason(mapping) && (
+                        <p className="text-xs text-amber-600 mt-1">
+                          Not written back: {getWriteSkipReason(mapping)}
+                        </p>
+                      )}
+                      {isComputedMapping(mapping) && (
+                        <div className="mt-1 space-y-1">
+                          {collectReferences(mapping.transformation, 'source').length > 0 && (
+                            <p className="text-xs text-muted-foreground">
+                              Uses: {collectReferences(mapping.transformation, 'source').join(', ')}
+                            </p>
+                          )}
+                          <Select value="" onValueChange={(value) => handleInsertSourceField(index, value)}>
+                            <SelectTrigger className="h-7 text-xs bg-transparent">
+                              <SelectValue placeholder="Insert source field" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {sourceFields.map((field) => (
+                                <SelectItem key={field.id} value={field.id}>
+                                  {field.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => toggleOptions(index)}
+                          title="Mapping options"
+                          className={expandedOptions.has(index) || hasMappingOptions(mapping) ? '' : 'opacity-0 group-hover:opacity-100 transition-opacity'}
+                        >
+                          <Settings2 className={`h-4 w-4 ${hasMappingOptions(mapping) ? 'text-primary' : 'text-muted-foreground'}`} />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleRemoveMapping(index)}
+                          disabled={mapping.isRequired}
+                          className={`opacity-0 group-hover:opacity-100 transition-opacity ${mapping.isRequired ? 'cursor-not-allowed' : ''}`}
+                        >
+                          <Trash2 className="h-4 w-4 text-muted-foreground" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                  {expandedOptions.has(index) && (
+                    <TableRow className="hover:bg-transparent">
+                      <TableCell colSpan={4} className="pt-0">
+                        <MappingOptionsEditor
+                          mapping={mapping}
+                          onChange={(updates) => updateMappingFields(index, updates)}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {mapping.multiValued && (
+                    <TableRow className="hover:bg-transparent">
+                      <TableCell colSpan={4} className="pt-0">
+                        <MultiValuedMappingEditor
+                          scimAttribute={mapping.scimAttribute}
+                          multiValued={mapping.multiValued}
+                          subAttributes={getSubAttributes(mapping.scimAttribute)}
+                          elementFields={getElementFields(mapping.sourceField)}
+                          onChange={(multiValued) => updateMappingFields(index, { multiValued })}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </React.Fragment>
               ))}
             </TableBody>
           </Table>
@@ -572,6 +839,54 @@ const SchemaMapper: React.FC<SchemaMapperProps> = ({
             </div>
           )}
         </ScrollArea>
+        
+        {!isGroup && (
+          <div className="mt-6 space-y-3">
+            <div className="flex items-center justify-between">
+              <div>
+                <Label>Variables</Label>
+                <p className="text-xs text-muted-foreground">
+                  Named values evaluated once per record. Transformations can use them alongside
+                  <code className="mx-1">value</code>, <code className="mx-1">source</code> and <code className="mx-1">app</code>.
+                </p>
+              </div>
+              <Button variant="outline" size="sm" onClick={handleAddVariable}>
+                <Plus className="h-3.5 w-3.5 mr-1" />
+                Add Variable
+              </Button>
+            </div>
+            
+            {variables.map((variable, index) => (
+              <div key={index} className="grid grid-cols-[1fr,2fr,auto] gap-2 items-start">
+                <div>
+                  <Input
+                    placeholder="name"
+                    value={variable.name}
+                    onChange={(e) => updateVariable(index, 'name', e.target.value)}
+                    className={`font-mono text-xs ${validateVariableName(variable.name, index) ? 'border-destructive' : ''}`}
+                  />
+                  {validateVariableName(variable.name, index) && (
+                    <p className="text-xs text-destructive mt-1">{validateVariableName(variable.name, index)}</p>
+                  )}
+                </div>
+                <div>
+                  <Input
+                    placeholder='concat(source.firstName, " ", source.lastName)'
+                    value={variable.expression}
+                    onChange={(e) => updateVariable(index, 'expression', e.target.value)}
+                    className={`font-mono text-xs ${validateExpression(variable.expression) ? 'border-destructive' : ''}`}
+                  />
+                  {validateExpression(variable.expression) && (
+                    <p className="text-xs text-destructive mt-1">{validateExpression(variable.expression)}</p>
+                  )}
+                </div>
+                <Button variant="ghost" size="icon" onClick={() => handleRemoveVariable(index)}>
+                  <Trash2 className="h-4 w-4 text-muted-foreground" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
       </CardContent>
       <Separator />
       <CardFooter className="flex justify-between pt-6">
@@ -607,7 +922,7 @@ const SchemaMapper: React.FC<SchemaMapperProps> = ({
           ) : (
             <Save className="h-4 w-4 mr-2" />
           )}
-          Save Schema Mapping
+          {isGroup ? 'Save Group Mapping' : 'Save Schema Mapping'}
         </Button>
       </CardFooter>
     </Card>
@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Check, ChevronsUpDown } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { MappingTarget } from '@/models/ScimSchemaCatalog';
+
+interface ScimAttributePickerProps {
+  targets: MappingTarget[];
+  value: string;
+  isRequired: boolean;
+  // Targets already used by other mappings
+  mappedIds: string[];
+  onChange: (value: string) => void;
+}
+
+const ScimAttributePicker: React.FC<ScimAttributePickerProps> = ({ targets, value, isRequired, mappedIds, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const selected = targets.find(target => target.id === value);
+  const schemas = [...new Set(targets.map(target => target.schema))];
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className="w-full justify-between bg-transparent font-normal"
+        >
+          <span className="truncate">
+            {selected?.name || value || 'Select attribute'}
+            {isRequired && <span className="text-destructive">*</span>}
+          </span>
+          <ChevronsUpDown className="h-4 w-4 ml-2 flex-shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[380px] p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search attributes..." />
+          <CommandList>
+            <CommandEmpty>No attribute found.</CommandEmpty>
+            {schemas.map(schema => (
+              <CommandGroup key={schema} heading={schema}>
+                {targets
+                  .filter(target => target.schema === schema)
+                  .map(target => {
+                    const isMapped = target.id !== value && mappedIds.includes(target.id);
+                    return (
+                      <CommandItem
+                        key={target.id}
+                        value={target.id}
+                        keywords={[target.name, target.description || '']}
+                        disabled={!target.selectable || isMapped}
+                        onSelect={() => {
+                          onChange(target.id);
+                          setOpen(false);
+                        }}
+                        className={cn('gap-2', target.depth > 0 && 'pl-7')}
+                      >
+                        <Check className={cn('h-3.5 w-3.5 flex-shrink-0', target.id === value ? 'opacity-100' : 'opacity-0')} />
+                        <span className="flex-1 min-w-0" title={target.description}>
+                          <span className={cn('font-mono text-xs', !target.selectable && 'font-semibold')}>{target.label}</span>
+                          {target.required && <span className="text-destructive ml-0.5">*</span>}
+                          {isMapped && <span className="text-xs text-muted-foreground ml-1">(mapped)</span>}
+                        </span>
+                        <span className="flex gap-1">
+                          {target.multiValued && <Badge variant="secondary" className="px-1 py-0 text-[10px]">multi</Badge>}
+                          {target.mutability !== 'readWrite' && (
+                            <Badge variant="outline" className="px-1 py-0 text-[10px]">{target.mutability}</Badge>
+                          )}
+                          <Badge variant="outline" className="px-1 py-0 text-[10px]">{target.type}</Badge>
+                        </span>
+                      </CommandItem>
+                    );
+                  })}
+              </CommandGroup>
+            ))}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default ScimAttributePicker;
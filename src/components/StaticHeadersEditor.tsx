@@ -0,0 +1,72 @@
+import React from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ListPlus, Plus, Trash2 } from "lucide-react";
+import { StaticHeader } from '@/utils/apiService';
+
+interface StaticHeadersEditorProps {
+  headers: StaticHeader[];
+  onChange: (headers: StaticHeader[]) => void;
+}
+
+const StaticHeadersEditor: React.FC<StaticHeadersEditorProps> = ({ headers, onChange }) => {
+  const updateHeader = (index: number, updates: Partial<StaticHeader>) => {
+    const newHeaders = [...headers];
+    newHeaders[index] = { ...newHeaders[index], ...updates };
+    onChange(newHeaders);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="flex items-center gap-1">
+          <ListPlus className="h-3.5 w-3.5" />
+          <span>Extra Headers</span>
+        </Label>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7"
+          onClick={() => onChange([...headers, { name: '', value: '' }])}
+        >
+          <Plus className="h-3 w-3 mr-1" />
+          Header
+        </Button>
+      </div>
+
+      {headers.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          No extra headers. Add static headers such as <code>Accept</code> or a tenant ID to send with every request.
+        </p>
+      ) : (
+        headers.map((header, index) => (
+          <div key={index} className="grid grid-cols-[1fr,1.5fr,auto] gap-2">
+            <Input
+              placeholder="Header name"
+              value={header.name}
+              onChange={(e) => updateHeader(index, { name: e.target.value })}
+              className="h-8 font-mono text-xs"
+            />
+            <Input
+              placeholder="Value"
+              value={header.value}
+              onChange={(e) => updateHeader(index, { value: e.target.value })}
+              className="h-8 font-mono text-xs"
+            />
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => onChange(headers.filter((_, i) => i !== index))}
+            >
+              <Trash2 className="h-3.5 w-3.5 text-muted-foreground" />
+            </Button>
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
+
+export default StaticHeadersEditor;
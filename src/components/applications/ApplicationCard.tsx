@@ -1,6 +1,7 @@
 
 import React from 'react';
 import { ApplicationConfig } from '@/models/ApplicationConfig';
+import { GENERIC_PROFILE } from '@/models/ConnectorProfile';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from '@/components/ui/button';
 import { Pencil, Trash, ArrowRight } from 'lucide-react';
@@ -22,11 +23,7 @@ const ApplicationCard: React.FC<ApplicationCardProps> = ({
   isActive
 }) => {
   const { id, name, apiConfig, mappings, updatedAt } = application;
-  const apiType = apiConfig.baseUrl.includes('dummyjson.com') 
-    ? 'DummyJSON' 
-    : apiConfig.baseUrl.includes('jsonplaceholder.typicode.com')
-      ? 'JSONPlaceholder'
-      : 'Custom API';
+  const apiType = (apiConfig.connector || GENERIC_PROFILE).name;
 
   return (
     <Card className={`w-full transition-all hover:shadow-md ${isActive ? 'border-primary' : ''}`}>
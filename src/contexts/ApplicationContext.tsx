@@ -1,7 +1,9 @@
 
 import React, { createContext, useContext, useEffect, useState } from 'react';
-import { ApplicationConfig, ApplicationState, loadApplications, saveApplications, generateUniqueId } from '@/models/ApplicationConfig';
-import { APIConfig } from '@/utils/apiService';
+import { ApplicationConfig, ApplicationState, MappingItem, ScimCapabilities, TransformVariable, loadApplications, saveApplications, generateUniqueId } from '@/models/ApplicationConfig';
+import { SchemaExtension } from '@/models/SchemaExtension';
+import { apiService, APIConfig } from '@/utils/apiService';
+import { migrateLegacyApiConfig } from '@/models/ConnectorProfile';
 import { toast } from 'sonner';
 
 interface ApplicationContextType extends ApplicationState {
@@ -11,7 +13,10 @@ interface ApplicationContextType extends ApplicationState {
   setActiveApplication: (id: string | null) => void;
   getApplication: (id: string) => ApplicationConfig | undefined;
   updateApiConfig: (id: string, apiConfig: APIConfig) => void;
-  updateMappings: (id: string, mappings: any[]) => void;
+  updateMappings: (id: string, mappings: any[], variables?: TransformVariable[]) => void;
+  updateGroupMappings: (id: string, groupMappings: MappingItem[]) => void;
+  updateSchemaExtensions: (id: string, schemaExtensions: SchemaExtension[]) => void;
+  updateCapabilities: (id: string, capabilities: ScimCapabilities) => void;
 }
 
 const ApplicationContext = createContext<ApplicationContextType | undefined>(undefined);
@@ -23,7 +28,10 @@ export const ApplicationProvider: React.FC<{ children: React.ReactNode }> = ({ c
   });
 
   useEffect(() => {
-    const applications = loadApplications();
+    const applications = loadApplications().map(app => ({ ...app, apiConfig: migrateLegacyApiConfig(app.apiConfig) }));
+    // Requests use the stored (and migrated) settings without the form being saved again;
+    // the active application goes last so it is also the service's current one
+    [...applications].reverse().forEach(app => apiService.setConfig(app.apiConfig, app.id));
     if (applications.length > 0) {
       setState({
         applications,
@@ -119,8 +127,20 @@ export const ApplicationProvider: React.FC<{ children: React.ReactNode }> = ({ c
     updateApplication(id, { apiConfig });
   };
 
-  const updateMappings = (id: string, mappings: any[]) => {
-    updateApplication(id, { mappings });
+  const updateMappings = (id: string, mappings: any[], variables?: TransformVariable[]) => {
+    updateApplication(id, variables ? { mappings, variables } : { mappings });
+  };
+
+  const updateGroupMappings = (id: string, groupMappings: MappingItem[]) => {
+    updateApplication(id, { groupMappings });
+  };
+
+  const updateSchemaExtensions = (id: string, schemaExtensions: SchemaExtension[]) => {
+    updateApplication(id, { schemaExtensions });
+  };
+
+  const updateCapabilities = (id: string, capabilities: ScimCapabilities) => {
+    updateApplication(id, { capabilities });
   };
 
   return (
@@ -133,7 +153,10 @@ export const ApplicationProvider: React.FC<{ children: React.ReactNode }> = ({ c
         setActiveApplication,
         getApplication,
         updateApiConfig,
-        updateMappings
+        updateMappings,
+        updateGroupMappings,
+        updateSchemaExtensions,
+        updateCapabilities
       }}
     >
       {children}
@@ -1,11 +1,85 @@
 
 import { APIConfig } from "@/utils/apiService";
+import { CompareOperator } from "@/utils/scimFilter";
+import { ScimResourceType } from "@/utils/scimUtils";
+import { SchemaExtension } from "./SchemaExtension";
+
+// Maps one field of each source array element onto a sub-attribute of the SCIM element
+export interface SubAttributeMapping {
+  subAttribute: string;
+  // Path relative to the array element; empty means the element itself
+  sourceField: string;
+  transformation?: string;
+}
+
+export interface MultiValuedMapping {
+  subMappings: SubAttributeMapping[];
+  // Optional expression deciding whether an element is mapped at all
+  elementFilter?: string;
+}
+
+// Which way a mapping is applied: `outbound` reads upstream records into SCIM,
+// `inbound` writes SCIM resources to the upstream API
+export type MappingDirection = 'bidirectional' | 'outbound' | 'inbound';
+
+// What happens to a value that cannot be coerced to its SCIM attribute type:
+// `lenient` keeps it as is, `strict` leaves the attribute out
+export type CoercionMode = 'lenient' | 'strict';
 
 export interface MappingItem {
   scimAttribute: string;
   sourceField: string;
   isRequired: boolean;
   transformation?: string;
+  // When set, sourceField points at a source array (e.g. `contacts[*]`) and
+  // scimAttribute at a SCIM multi-valued attribute (e.g. `emails`)
+  multiValued?: MultiValuedMapping;
+  // Upstream query parameter that evaluates each SCIM filter operator natively,
+  // e.g. { eq: 'username' } turns `userName eq "x"` into `?username=x`
+  queryParams?: Partial<Record<CompareOperator, string>>;
+  // Defaults to bidirectional
+  direction?: MappingDirection;
+  // Turns the SCIM value back into the source field value on writes, e.g.
+  // `value + " " + scim.name.familyName` for a givenName split from a full name
+  inverseTransformation?: string;
+  // Defaults to lenient
+  coercion?: CoercionMode;
+}
+
+// Named value computed once per record and usable from every transformation
+export interface TransformVariable {
+  name: string;
+  expression: string;
+}
+
+// SCIM payload saved from the Endpoint Tester, kept as the JSON text the user typed
+export interface PayloadPreset {
+  name: string;
+  payload: string;
+  // Defaults to User
+  resourceType?: ScimResourceType;
+}
+
+// How clients authenticate to the SCIM endpoint, as advertised in the ServiceProviderConfig
+export interface AuthenticationScheme {
+  type: 'oauthbearertoken' | 'httpbasic' | 'oauth2' | 'oauth' | 'httpdigest';
+  name: string;
+  description: string;
+  specUri?: string;
+  documentationUri?: string;
+  primary?: boolean;
+}
+
+// Features the SCIM endpoint declares in its ServiceProviderConfig (RFC 7643 §5)
+export interface ScimCapabilities {
+  patch: boolean;
+  bulk: { supported: boolean; maxOperations: number; maxPayloadSize: number };
+  filter: { supported: boolean; maxResults: number };
+  sort: boolean;
+  etag: boolean;
+  changePassword: boolean;
+  authenticationSchemes: AuthenticationScheme[];
+  documentationUri?: string;
 }
 
 export interface ApplicationConfig {
@@ -15,6 +89,12 @@ export interface ApplicationConfig {
   updatedAt: number;
   apiConfig: APIConfig;
   mappings: MappingItem[];
+  groupMappings?: MappingItem[];
+  variables?: TransformVariable[];
+  payloadPresets?: PayloadPreset[];
+  schemaExtensions?: SchemaExtension[];
+  // What the facade supports when unset
+  capabilities?: ScimCapabilities;
 }
 
 export interface ApplicationState {
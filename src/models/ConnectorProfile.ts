@@ -0,0 +1,163 @@
+import { APIConfig, PaginationConfig } from "@/utils/apiService";
+import { MappingItem } from "@/models/ApplicationConfig";
+import { ScimResourceType } from "@/utils/scimUtils";
+
+// Where the upstream API keeps one kind of resource
+export interface ResourceEndpoint {
+  resourcePath: string;
+  listEnvelopeKey?: string;
+  itemPathTemplate: string;
+}
+
+// How changed records are written back: PUT sends the whole record, PATCH only the changed fields
+export type UpdateMethod = 'PUT' | 'PATCH';
+
+// Describes how a kind of upstream API exposes its users
+export interface ConnectorProfile {
+  id: string;
+  name: string;
+  builtIn?: boolean;
+  // Path of the user collection relative to the base URL, e.g. `/users`
+  resourcePath: string;
+  // Property of the list response holding the items; empty when the list is a bare array
+  listEnvelopeKey?: string;
+  // Path of a single user relative to the base URL; `{id}` is replaced with the user ID
+  itemPathTemplate: string;
+  // Endpoint requested by Test Connection
+  healthCheckEndpoint: string;
+  pagination: PaginationConfig;
+  // Upstream location of groups; SCIM Groups are unavailable without it
+  groupEndpoint?: ResourceEndpoint;
+  // Used for SCIM PATCH requests; PUT when unset
+  updateMethod?: UpdateMethod;
+  // Mappings suggested when an application using this profile has none yet
+  defaultMappings: MappingItem[];
+}
+
+// Used for APIs that match no other profile: users live directly under the base URL
+export const GENERIC_PROFILE: ConnectorProfile = {
+  id: 'generic',
+  name: 'Generic REST',
+  builtIn: true,
+  resourcePath: '',
+  itemPathTemplate: '/{id}',
+  healthCheckEndpoint: '',
+  pagination: { style: 'none' },
+  defaultMappings: []
+};
+
+export const DUMMYJSON_PROFILE: ConnectorProfile = {
+  id: 'dummyjson',
+  name: 'DummyJSON',
+  builtIn: true,
+  resourcePath: '/users',
+  listEnvelopeKey: 'users',
+  itemPathTemplate: '/users/{id}',
+  healthCheckEndpoint: '/users/1',
+  pagination: { style: 'offset', offsetParam: 'skip', limitParam: 'limit', totalPath: 'total' },
+  defaultMappings: [
+    { scimAttribute: 'userName', sourceField: 'username', isRequired: true },
+    { scimAttribute: 'name.givenName', sourceField: 'firstName', isRequired: true },
+    { scimAttribute: 'name.familyName', sourceField: 'lastName', isRequired: true },
+    { scimAttribute: 'displayName', sourceField: 'firstName', isRequired: false, transformation: 'value + " " + (source.lastName || "")' },
+    { scimAttribute: 'emails[0].value', sourceField: 'email', isRequired: true },
+    { scimAttribute: 'phoneNumbers[0].value', sourceField: 'phone', isRequired: false },
+    { scimAttribute: 'externalId', sourceField: 'id', isRequired: false, transformation: 'String(value)' },
+    // The API has no account status: users read as active and it cannot be changed
+    { scimAttribute: 'active', sourceField: 'id', isRequired: false, transformation: 'true', direction: 'outbound' },
+  ]
+};
+
+export const JSONPLACEHOLDER_PROFILE: ConnectorProfile = {
+  id: 'jsonplaceholder',
+  name: 'JSONPlaceholder',
+  builtIn: true,
+  resourcePath: '/users',
+  itemPathTemplate: '/users/{id}',
+  healthCheckEndpoint: '/users/1',
+  pagination: { style: 'offset', offsetParam: '_start', limitParam: '_limit', totalHeader: 'X-Total-Count' },
+  defaultMappings: [
+    { scimAttribute: 'userName', sourceField: 'username', isRequired: true, queryParams: { eq: 'username' } },
+    {
+      scimAttribute: 'name.givenName',
+      sourceField: 'name',
+      isRequired: true,
+      transformation: 'value.split(" ")[0]',
+      inverseTransformation: 'trim(value + " " + (scim.name.familyName ?? ""))'
+    },
+    {
+      scimAttribute: 'name.familyName',
+      sourceField: 'name',
+      isRequired: true,
+      transformation: 'value.split(" ").slice(1).join(" ")',
+      inverseTransformation: 'trim((scim.name.givenName ?? "") + " " + value)'
+    },
+    // name is written back from givenName and familyName
+    { scimAttribute: 'displayName', sourceField: 'name', isRequired: false, direction: 'outbound' },
+    { scimAttribute: 'emails[0].value', sourceField: 'email', isRequired: true, queryParams: { eq: 'email' } },
+    { scimAttribute: 'phoneNumbers[0].value', sourceField: 'phone', isRequired: false },
+    { scimAttribute: 'externalId', sourceField: 'id', isRequired: false, transformation: 'String(value)' },
+    // The API has no account status: users read as active and it cannot be changed
+    { scimAttribute: 'active', sourceField: 'id', isRequired: false, transformation: 'true', direction: 'outbound' },
+  ]
+};
+
+export const BUILT_IN_PROFILES: ConnectorProfile[] = [GENERIC_PROFILE, DUMMYJSON_PROFILE, JSONPLACEHOLDER_PROFILE];
+
+// Hosts of the built-in profiles, for applications saved before profiles existed
+const LEGACY_PROFILE_HOSTS: Record<string, ConnectorProfile> = {
+  'dummyjson.com': DUMMYJSON_PROFILE,
+  'jsonplaceholder.typicode.com': JSONPLACEHOLDER_PROFILE
+};
+
+/**
+ * Upstream settings saved before connector profiles existed, with the profile
+ * inferred from the base URL. Such base URLs often included the user
+ * collection (e.g. `https://dummyjson.com/users`), which the profile now adds.
+ */
+export const migrateLegacyApiConfig = (apiConfig: APIConfig): APIConfig => {
+  if (apiConfig.connector || !apiConfig.baseUrl) {
+    return apiConfig;
+  }
+  let host: string;
+  try {
+    host = new URL(apiConfig.baseUrl).hostname.replace(/^www\./, '');
+  } catch {
+    return apiConfig;
+  }
+  const profile = LEGACY_PROFILE_HOSTS[host];
+  if (!profile) {
+    return apiConfig;
+  }
+  const baseUrl = apiConfig.baseUrl.replace(/\/+$/, '');
+  return {
+    ...apiConfig,
+    baseUrl: baseUrl.endsWith(profile.resourcePath) ? baseUrl.slice(0, -profile.resourcePath.length) : baseUrl,
+    connector: profile
+  };
+};
+
+/**
+ * Upstream location of a SCIM resource type, or null if the profile has none
+ */
+export const getResourceEndpoint = (profile: ConnectorProfile, resourceType: ScimResourceType): ResourceEndpoint | null => {
+  if (resourceType === 'Group') {
+    const { groupEndpoint } = profile;
+    if (!groupEndpoint?.resourcePath) {
+      return null;
+    }
+    return { ...groupEndpoint, itemPathTemplate: groupEndpoint.itemPathTemplate || `${groupEndpoint.resourcePath}/{id}` };
+  }
+  return {
+    resourcePath: profile.resourcePath,
+    listEnvelopeKey: profile.listEnvelopeKey,
+    itemPathTemplate: profile.itemPathTemplate
+  };
+};
+
+/**
+ * Expand the item path template for a resource ID
+ */
+export const buildItemPath = (endpoint: Pick<ResourceEndpoint, 'itemPathTemplate'>, id: string | number): string => {
+  return endpoint.itemPathTemplate.replace(/\{id\}/g, encodeURIComponent(String(id)));
+};
@@ -0,0 +1,72 @@
+import { ENTERPRISE_USER_SCHEMA, SCIM_SCHEMA_URNS, ScimResourceType } from "@/utils/scimUtils";
+
+// Attribute metadata as defined by RFC 7643 §7
+export type AttributeType = 'string' | 'boolean' | 'decimal' | 'integer' | 'dateTime' | 'reference' | 'binary';
+export type AttributeMutability = 'readOnly' | 'readWrite' | 'immutable' | 'writeOnly';
+export type AttributeReturned = 'always' | 'never' | 'default' | 'request';
+
+export const ATTRIBUTE_TYPES: AttributeType[] = ['string', 'boolean', 'decimal', 'integer', 'dateTime', 'reference', 'binary'];
+export const ATTRIBUTE_MUTABILITIES: AttributeMutability[] = ['readWrite', 'readOnly', 'immutable', 'writeOnly'];
+export const ATTRIBUTE_RETURNED: AttributeReturned[] = ['default', 'always', 'never', 'request'];
+
+export interface ExtensionAttribute {
+  name: string;
+  type: AttributeType;
+  multiValued: boolean;
+  required: boolean;
+  mutability: AttributeMutability;
+  returned: AttributeReturned;
+  // Allowed values, e.g. ["full-time", "contractor"]; empty means any
+  canonicalValues?: string[];
+  description?: string;
+}
+
+// A schema extension declared by the user, e.g. `urn:acme:scim:schemas:extension:2.0:User`
+export interface SchemaExtension {
+  urn: string;
+  name: string;
+  resourceType: ScimResourceType;
+  description?: string;
+  attributes: ExtensionAttribute[];
+}
+
+export const createExtensionAttribute = (name: string = ''): ExtensionAttribute => ({
+  name,
+  type: 'string',
+  multiValued: false,
+  required: false,
+  mutability: 'readWrite',
+  returned: 'default'
+});
+
+/**
+ * Check an extension declaration, returning the first problem found if any
+ */
+export const validateSchemaExtension = (extension: SchemaExtension, others: SchemaExtension[] = []): string | null => {
+  const urn = extension.urn.trim();
+  if (!/^urn:[a-z0-9][a-z0-9-]{0,31}:\S+$/i.test(urn)) {
+    return 'The URN must look like urn:<namespace>:<name>';
+  }
+  if ([...Object.values(SCIM_SCHEMA_URNS), ENTERPRISE_USER_SCHEMA].some(known => known.toLowerCase() === urn.toLowerCase())) {
+    return `${urn} is a standard schema`;
+  }
+  if (others.some(other => other.urn.trim().toLowerCase() === urn.toLowerCase())) {
+    return `${urn} is declared twice`;
+  }
+  if (!extension.name.trim()) {
+    return 'The extension needs a name';
+  }
+
+  const names = new Set<string>();
+  for (const attribute of extension.attributes) {
+    // ATTRNAME from RFC 7643 §2.1
+    if (!/^[A-Za-z][\w$-]*$/.test(attribute.name)) {
+      return `"${attribute.name}" is not a valid attribute name`;
+    }
+    if (names.has(attribute.name.toLowerCase())) {
+      return `"${attribute.name}" is declared twice`;
+    }
+    names.add(attribute.name.toLowerCase());
+  }
+  return null;
+};
@@ -0,0 +1,273 @@
+import { ENTERPRISE_USER_SCHEMA, SCIM_SCHEMA_URNS, ScimResourceType } from "@/utils/scimUtils";
+import { splitAttributePath } from "@/utils/scimFilter";
+import { AttributeMutability, AttributeReturned, AttributeType, ExtensionAttribute, SchemaExtension } from "./SchemaExtension";
+
+// An attribute definition as published under /Schemas (RFC 7643 §7)
+export interface SchemaAttribute {
+  name: string;
+  type: AttributeType | 'complex';
+  multiValued: boolean;
+  description?: string;
+  required: boolean;
+  canonicalValues?: string[];
+  caseExact: boolean;
+  mutability: AttributeMutability;
+  returned: AttributeReturned;
+  uniqueness: 'none' | 'server' | 'global';
+  referenceTypes?: string[];
+  subAttributes?: SchemaAttribute[];
+}
+
+export interface SchemaDefinition {
+  urn: string;
+  name: string;
+  attributes: SchemaAttribute[];
+}
+
+const attribute = (name: string, type: SchemaAttribute['type'], description: string, options: Partial<SchemaAttribute> = {}): SchemaAttribute => ({
+  name,
+  type,
+  multiValued: false,
+  description,
+  required: false,
+  caseExact: false,
+  mutability: 'readWrite',
+  returned: 'default',
+  uniqueness: 'none',
+  ...options
+});
+
+// The value/display/type/primary shape shared by emails, phoneNumbers, ims, photos, entitlements and roles
+const multiValuedAttribute = (
+  name: string,
+  description: string,
+  types: string[],
+  valueOptions: Partial<SchemaAttribute> = {}
+): SchemaAttribute => attribute(name, 'complex', description, {
+  multiValued: true,
+  subAttributes: [
+    attribute('value', 'string', `The ${name} value`, valueOptions),
+    attribute('display', 'string', 'A human-readable name, primarily used for display purposes'),
+    attribute('type', 'string', `A label indicating the function of the ${name} value`, types.length > 0 ? { canonicalValues: types } : {}),
+    attribute('primary', 'boolean', 'Whether this is the preferred value for the attribute')
+  ]
+});
+
+// Attributes of the User core schema (RFC 7643 §4.1)
+const USER_ATTRIBUTES: SchemaAttribute[] = [
+  attribute('userName', 'string', 'Unique identifier for the User, typically used to authenticate', { required: true, uniqueness: 'server' }),
+  attribute('externalId', 'string', 'Identifier of the User as defined by the provisioning client', { caseExact: true }),
+  attribute('name', 'complex', 'The components of the User\'s real name', {
+    subAttributes: [
+      attribute('formatted', 'string', 'The full name, formatted for display'),
+      attribute('familyName', 'string', 'The family name, or last name in most Western languages'),
+      attribute('givenName', 'string', 'The given name, or first name in most Western languages'),
+      attribute('middleName', 'string', 'The middle name(s)'),
+      attribute('honorificPrefix', 'string', 'The honorific prefix(es), e.g. "Ms."'),
+      attribute('honorificSuffix', 'string', 'The honorific suffix(es), e.g. "III"')
+    ]
+  }),
+  attribute('displayName', 'string', 'The name of the User, suitable for display to end-users'),
+  attribute('nickName', 'string', 'The casual way to address the User'),
+  attribute('profileUrl', 'reference', 'A fully qualified URL pointing to the User\'s online profile', { referenceTypes: ['external'] }),
+  attribute('title', 'string', 'The User\'s title, such as "Vice President"'),
+  attribute('userType', 'string', 'The relationship between the organization and the User, e.g. "Employee"'),
+  attribute('preferredLanguage', 'string', 'The User\'s preferred written or spoken language, e.g. "en-US"'),
+  attribute('locale', 'string', 'The User\'s default location for localization, e.g. "en-US"'),
+  attribute('timezone', 'string', 'The User\'s time zone in IANA format, e.g. "America/Los_Angeles"'),
+  attribute('active', 'boolean', 'The User\'s administrative status'),
+  attribute('password', 'string', 'The User\'s cleartext password', { mutability: 'writeOnly', returned: 'never' }),
+  multiValuedAttribute('emails', 'Email addresses for the User', ['work', 'home', 'other']),
+  multiValuedAttribute('phoneNumbers', 'Phone numbers for the User', ['work', 'home', 'mobile', 'fax', 'pager', 'other']),
+  multiValuedAttribute('ims', 'Instant messaging addresses for the User', ['aim', 'gtalk', 'icq', 'xmpp', 'msn', 'skype', 'qq', 'yahoo']),
+  multiValuedAttribute('photos', 'URLs of photos of the User', ['photo', 'thumbnail'], { type: 'reference', referenceTypes: ['external'] }),
+  attribute('addresses', 'complex', 'A physical mailing address for the User', {
+    multiValued: true,
+    subAttributes: [
+      attribute('formatted', 'string', 'The full mailing address, formatted for display'),
+      attribute('streetAddress', 'string', 'The full street address component'),
+      attribute('locality', 'string', 'The city or locality component'),
+      attribute('region', 'string', 'The state or region component'),
+      attribute('postalCode', 'string', 'The zip code or postal code component'),
+      attribute('country', 'string', 'The country name component, in ISO 3166-1 alpha-2 format'),
+      attribute('type', 'string', 'A label indicating the function of the address', { canonicalValues: ['work', 'home', 'other'] }),
+      attribute('primary', 'boolean', 'Whether this is the preferred mailing address')
+    ]
+  }),
+  attribute('groups', 'complex', 'The groups the User belongs to, managed through the Group resource', {
+    multiValued: true,
+    mutability: 'readOnly',
+    subAttributes: [
+      attribute('value', 'string', 'The identifier of the Group', { mutability: 'readOnly' }),
+      attribute('$ref', 'reference', 'The URI of the Group', { mutability: 'readOnly', referenceTypes: ['User', 'Group'] }),
+      attribute('display', 'string', 'A human-readable name of the Group', { mutability: 'readOnly' }),
+      attribute('type', 'string', 'Whether the membership is direct or inherited', { mutability: 'readOnly', canonicalValues: ['direct', 'indirect'] })
+    ]
+  }),
+  multiValuedAttribute('entitlements', 'Entitlements held by the User', []),
+  multiValuedAttribute('roles', 'Roles held by the User', []),
+  multiValuedAttribute('x509Certificates', 'DER-encoded X.509 certificates issued to the User', [], { type: 'binary' })
+];
+
+// Attributes of the Group core schema (RFC 7643 §4.2)
+const GROUP_ATTRIBUTES: SchemaAttribute[] = [
+  attribute('displayName', 'string', 'A human-readable name for the Group', { required: true }),
+  attribute('externalId', 'string', 'Identifier of the Group as defined by the provisioning client', { caseExact: true }),
+  attribute('members', 'complex', 'A list of members of the Group', {
+    multiValued: true,
+    subAttributes: [
+      attribute('value', 'string', 'Identifier of the member', { mutability: 'immutable' }),
+      attribute('display', 'string', 'A human-readable name of the member'),
+      attribute('$ref', 'reference', 'The URI of the member resource', { mutability: 'immutable', referenceTypes: ['User', 'Group'] }),
+      attribute('type', 'string', 'The type of the member resource', { mutability: 'immutable', canonicalValues: ['User', 'Group'] })
+    ]
+  })
+];
+
+// Attributes of the Enterprise User extension (RFC 7643 §4.3)
+const ENTERPRISE_USER_ATTRIBUTES: SchemaAttribute[] = [
+  attribute('employeeNumber', 'string', 'Numeric or alphanumeric identifier assigned to a person'),
+  attribute('costCenter', 'string', 'Identifies the name of a cost center'),
+  attribute('organization', 'string', 'Identifies the name of an organization'),
+  attribute('division', 'string', 'Identifies the name of a division'),
+  attribute('department', 'string', 'Identifies the name of a department'),
+  attribute('manager', 'complex', 'The User\'s manager', {
+    subAttributes: [
+      attribute('value', 'string', 'The id of the manager\'s SCIM resource'),
+      attribute('$ref', 'reference', 'The URI of the manager\'s SCIM resource', { referenceTypes: ['User'] }),
+      attribute('displayName', 'string', 'The display name of the manager', { mutability: 'readOnly' })
+    ]
+  })
+];
+
+/**
+ * The standard schemas of a resource type. Built on demand because the schema
+ * URNs come from scimUtils, which uses this catalog for coercion.
+ */
+export const getStandardSchemas = (resourceType: ScimResourceType): SchemaDefinition[] => {
+  if (resourceType === 'Group') {
+    return [{ urn: SCIM_SCHEMA_URNS.Group, name: 'Group', attributes: GROUP_ATTRIBUTES }];
+  }
+  return [
+    { urn: SCIM_SCHEMA_URNS.User, name: 'User', attributes: USER_ATTRIBUTES },
+    { urn: ENTERPRISE_USER_SCHEMA, name: 'EnterpriseUser', attributes: ENTERPRISE_USER_ATTRIBUTES }
+  ];
+};
+
+/**
+ * Describe a declared extension attribute as a schema attribute
+ */
+export const toSchemaAttribute = (extensionAttribute: ExtensionAttribute): SchemaAttribute => ({
+  name: extensionAttribute.name,
+  type: extensionAttribute.type,
+  multiValued: extensionAttribute.multiValued,
+  ...(extensionAttribute.description && { description: extensionAttribute.description }),
+  required: extensionAttribute.required,
+  ...(extensionAttribute.canonicalValues?.length && { canonicalValues: extensionAttribute.canonicalValues }),
+  caseExact: false,
+  mutability: extensionAttribute.mutability,
+  returned: extensionAttribute.returned,
+  uniqueness: 'none'
+});
+
+/**
+ * The standard schemas of a resource type followed by its declared extensions
+ */
+export const getSchemaCatalog = (resourceType: ScimResourceType, extensions: SchemaExtension[] = []): SchemaDefinition[] => [
+  ...getStandardSchemas(resourceType),
+  ...extensions
+    .filter(extension => extension.resourceType === resourceType)
+    .map(extension => ({ urn: extension.urn, name: extension.name, attributes: extension.attributes.map(toSchemaAttribute) }))
+];
+
+/**
+ * Look up the definition of an attribute path such as `emails[0].value`,
+ * `name.givenName` or a URN-qualified extension path
+ */
+export const findAttributeDefinition = (
+  path: string,
+  resourceType: ScimResourceType = 'User',
+  extensions: SchemaExtension[] = []
+): SchemaAttribute | undefined => {
+  const { urn, names } = splitAttributePath(path);
+  const schemaUrn = urn || SCIM_SCHEMA_URNS[resourceType];
+  const schema = getSchemaCatalog(resourceType, extensions)
+    .find(definition => definition.urn.toLowerCase() === schemaUrn.toLowerCase());
+
+  let attributes = schema?.attributes;
+  let definition: SchemaAttribute | undefined;
+  for (const name of names) {
+    const attributeName = name.replace(/\[[^\]]*\]$/, '').toLowerCase();
+    definition = attributes?.find(item => item.name.toLowerCase() === attributeName);
+    if (!definition) {
+      return undefined;
+    }
+    attributes = definition.subAttributes;
+  }
+  return definition;
+};
+
+// An entry of the mapping target tree shown by the schema mapper
+export interface MappingTarget {
+  // Attribute path used as MappingItem.scimAttribute
+  id: string;
+  // Full name shown once selected, e.g. `manager.value (EnterpriseUser)`
+  name: string;
+  // Name shown in the tree, relative to the parent
+  label: string;
+  schema: string;
+  depth: number;
+  type: SchemaAttribute['type'];
+  required: boolean;
+  mutability: AttributeMutability;
+  description?: string;
+  // Complex attributes are only headings; their sub-attributes are mapped
+  selectable: boolean;
+  multiValued?: boolean;
+  subAttributes?: string[];
+}
+
+/**
+ * Flatten the schema catalog into mapping targets. Multi-valued complex
+ * attributes are mapped as a whole, with a `[0].value` shortcut for the first
+ * value; single complex attributes are mapped one sub-attribute at a time.
+ */
+export const getMappingTargets = (resourceType: ScimResourceType, extensions: SchemaExtension[] = []): MappingTarget[] => {
+  return getSchemaCatalog(resourceType, extensions).flatMap(schema => {
+    const isCore = schema.urn === SCIM_SCHEMA_URNS[resourceType];
+    const prefix = isCore ? '' : `${schema.urn}:`;
+    const suffix = isCore ? '' : ` (${schema.name})`;
+
+    return schema.attributes.flatMap(definition => {
+      const target = (path: string, label: string, depth: number, item: SchemaAttribute, selectable: boolean = true): MappingTarget => ({
+        id: `${prefix}${path}`,
+        name: `${path}${suffix}`,
+        label,
+        schema: schema.name,
+        depth,
+        type: item.type,
+        required: item.required,
+        mutability: item.mutability,
+        description: item.description,
+        selectable
+      });
+      const subAttributes = definition.subAttributes || [];
+
+      if (definition.type !== 'complex') {
+        return [target(definition.name, definition.name, 0, definition)];
+      }
+      if (!definition.multiValued) {
+        return [
+          target(definition.name, definition.name, 0, definition, false),
+          ...subAttributes.map(sub => target(`${definition.name}.${sub.name}`, sub.name, 1, sub))
+        ];
+      }
+
+      const value = subAttributes.find(sub => sub.name === 'value');
+      return [
+        { ...target(definition.name, definition.name, 0, definition), multiValued: true, subAttributes: subAttributes.map(sub => sub.name) },
+        ...(value ? [target(`${definition.name}[0].value`, '[0].value', 1, { ...value, description: `The first ${definition.name} value` })] : [])
+      ];
+    });
+  });
+};
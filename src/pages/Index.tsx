@@ -1,20 +1,30 @@
 
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import Header from '@/components/Header';
 import APIConfigForm from '@/components/APIConfigForm';
 import SchemaMapper from '@/components/SchemaMapper';
+import SchemaExtensionsEditor from '@/components/SchemaExtensionsEditor';
+import CapabilitiesEditor from '@/components/CapabilitiesEditor';
+import DiscoveryDocuments from '@/components/DiscoveryDocuments';
 import EndpointTester from '@/components/EndpointTester';
+import MockScimServer from '@/components/MockScimServer';
+import ComplianceRunner from '@/components/ComplianceRunner';
 import MappingPreview from '@/components/MappingPreview';
 import APIHistory from '@/components/APIHistory';
 import ApplicationList from '@/components/applications/ApplicationList';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from '@/components/ui/button';
-import { ChevronLeft, Download, List, Plus } from 'lucide-react';
+import { ChevronLeft, Download, List, Plus, Server } from 'lucide-react';
 import { toast } from 'sonner';
 import { Separator } from '@/components/ui/separator';
 import { useApplications } from '@/contexts/ApplicationContext';
 import { apiService, APIConfig } from '@/utils/apiService';
-import { scimUtils } from '@/utils/scimUtils';
+import { MappingItem, ScimCapabilities, TransformVariable } from '@/models/ApplicationConfig';
+import { SchemaExtension } from '@/models/SchemaExtension';
+import { toScimConfig } from '@/utils/scimUtils';
+import { getServedApplicationId, stopScimFacade } from '@/utils/scimFacade';
+import { buildGatewayProject } from '@/utils/gatewayExport';
+import { createZip } from '@/utils/zip';
 
 const Index = () => {
   const { 
@@ -24,11 +34,23 @@ const Index = () => {
     getApplication, 
     updateApiConfig,
     updateMappings,
+    updateGroupMappings,
+    updateSchemaExtensions,
+    updateCapabilities,
     setActiveApplication
   } = useApplications();
   
   const [activeTab, setActiveTab] = useState('setup');
   const activeApp = activeApplicationId ? getApplication(activeApplicationId) : null;
+  const activeScimConfig = useMemo(() => activeApp ? toScimConfig(activeApp) : null, [activeApp]);
+  
+  // The mock SCIM server only serves the application being worked on
+  useEffect(() => {
+    const servedApplicationId = getServedApplicationId();
+    if (servedApplicationId && servedApplicationId !== activeApplicationId) {
+      stopScimFacade();
+    }
+  }, [activeApplicationId]);
 
   const handleApiConfigSave = (config: APIConfig) => {
     if (!activeApplicationId) {
@@ -38,24 +60,6 @@ const Index = () => {
       return;
     }
 
-    // For DummyJSON API, ensure URL format is correct
-    if (config.baseUrl.includes('dummyjson.com')) {
-      // Make sure the URL ends with /users for proper API calls
-      if (!config.baseUrl.endsWith('/users')) {
-        // Remove trailing slash if present
-        const baseUrl = config.baseUrl.endsWith('/') 
-          ? config.baseUrl.slice(0, -1) 
-          : config.baseUrl;
-        
-        // Add /users to the end
-        config.baseUrl = `${baseUrl}/users`;
-        
-        toast.info('URL format updated', {
-          description: 'URL updated to include /users endpoint for DummyJSON API.',
-        });
-      }
-    }
-    
     // Update application context
     updateApiConfig(activeApplicationId, config);
     
@@ -67,7 +71,7 @@ const Index = () => {
     });
   };
   
-  const handleMappingSave = (newMappings: any[]) => {
+  const handleMappingSave = (newMappings: any[], variables: TransformVariable[] = []) => {
     if (!activeApplicationId) {
       toast.error('No active application', {
         description: 'Please select or create an application first.',
@@ -76,19 +80,55 @@ const Index = () => {
     }
     
     // Update application context
-    updateMappings(activeApplicationId, newMappings);
+    updateMappings(activeApplicationId, newMappings, variables);
     
-    // Update SCIM utils if needed
-    if (activeApp?.apiConfig) {
-      scimUtils.setConfig({
-        mappings: newMappings,
-        baseUrl: activeApp.apiConfig.baseUrl,
-        resourceTypes: ['Users', 'Groups']
+    toast.success('Mappings saved', {
+      description: 'Your schema mappings have been updated.',
+    });
+  };
+  
+  const handleGroupMappingSave = (groupMappings: MappingItem[]) => {
+    if (!activeApplicationId) {
+      toast.error('No active application', {
+        description: 'Please select or create an application first.',
       });
+      return;
     }
     
-    toast.success('Mappings saved', {
-      description: 'Your schema mappings have been updated.',
+    updateGroupMappings(activeApplicationId, groupMappings);
+    
+    toast.success('Group mappings saved', {
+      description: 'Your group schema mappings have been updated.',
+    });
+  };
+  
+  const handleSchemaExtensionsSave = (schemaExtensions: SchemaExtension[]) => {
+    if (!activeApplicationId) {
+      toast.error('No active application', {
+        description: 'Please select or create an application first.',
+      });
+      return;
+    }
+    
+    updateSchemaExtensions(activeApplicationId, schemaExtensions);
+    
+    toast.success('Schema extensions saved', {
+      description: 'Extension attributes are now available as mapping targets.',
+    });
+  };
+  
+  const handleCapabilitiesSave = (capabilities: ScimCapabilities) => {
+    if (!activeApplicationId) {
+      toast.error('No active application', {
+        description: 'Please select or create an application first.',
+      });
+      return;
+    }
+    
+    updateCapabilities(activeApplicationId, capabilities);
+    
+    toast.success('Capabilities saved', {
+      description: 'The ServiceProviderConfig document has been updated.',
     });
   };
   
@@ -132,6 +172,37 @@ const Index = () => {
     }
   };
   
+  const handleExportGateway = () => {
+    try {
+      if (!activeApp) {
+        toast.error('No active application', {
+          description: 'Please select or create an application to export.',
+        });
+        return;
+      }
+      
+      const archive = createZip(buildGatewayProject(activeApp));
+      const blob = new Blob([archive], { type: 'application/zip' });
+      const url = URL.createObjectURL(blob);
+      
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${activeApp.name.replace(/\s+/g, '-').toLowerCase()}-scim-gateway.zip`;
+      a.click();
+      
+      URL.revokeObjectURL(url);
+      
+      toast.success('SCIM gateway exported', {
+        description: 'Credentials are left out: set them in .env before starting the gateway.',
+      });
+    } catch (error) {
+      console.error('Failed to export SCIM gateway:', error);
+      toast.error('Export failed', {
+        description: 'Failed to export the SCIM gateway. Please try again.',
+      });
+    }
+  };
+  
   const handleCreateNewApp = () => {
     const newApp = addApplication('New Application');
     setActiveApplication(newApp.id);
@@ -179,31 +250,58 @@ const Index = () => {
         </div>
         
         <Tabs defaultValue="configure" className="w-full">
-          <TabsList className="grid w-full grid-cols-4">
+          <TabsList className="grid w-full grid-cols-6">
             <TabsTrigger value="configure">Configure</TabsTrigger>
             <TabsTrigger value="preview">Preview</TabsTrigger>
+            <TabsTrigger value="discovery">Discovery</TabsTrigger>
             <TabsTrigger value="test">Test</TabsTrigger>
+            <TabsTrigger value="compliance">Compliance</TabsTrigger>
             <TabsTrigger value="history">History</TabsTrigger>
           </TabsList>
           <TabsContent value="configure" className="space-y-6 pt-6">
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-              <APIConfigForm 
-                onConfigSave={handleApiConfigSave} 
-                initialConfig={activeApp.apiConfig}
-                applicationId={activeApp.id}
-              />
-              <SchemaMapper 
-                onMappingSave={handleMappingSave}
-                initialMappings={activeApp.mappings}
-                applicationId={activeApp.id}
-              />
+              <div className="space-y-6">
+                <APIConfigForm 
+                  onConfigSave={handleApiConfigSave} 
+                  initialConfig={activeApp.apiConfig}
+                  applicationId={activeApp.id}
+                  currentMappings={activeApp.mappings}
+                />
+                <SchemaExtensionsEditor
+                  initialExtensions={activeApp.schemaExtensions}
+                  onSave={handleSchemaExtensionsSave}
+                />
+              </div>
+              <div className="space-y-6">
+                <SchemaMapper 
+                  onMappingSave={handleMappingSave}
+                  initialMappings={activeApp.mappings}
+                  initialVariables={activeApp.variables}
+                  schemaExtensions={activeApp.schemaExtensions}
+                  applicationId={activeApp.id}
+                />
+                <SchemaMapper 
+                  resourceType="Group"
+                  onMappingSave={handleGroupMappingSave}
+                  initialMappings={activeApp.groupMappings}
+                  schemaExtensions={activeApp.schemaExtensions}
+                  applicationId={activeApp.id}
+                />
+              </div>
             </div>
           </TabsContent>
           <TabsContent value="preview" className="pt-6">
             {activeApp.mappings.length > 0 ? (
               <MappingPreview 
                 mappings={activeApp.mappings} 
+                variables={activeApp.variables}
+                app={{
+                  id: activeApp.id,
+                  name: activeApp.name,
+                  baseUrl: activeApp.apiConfig.baseUrl
+                }}
                 applicationId={activeApp.id}
+                schemaExtensions={activeApp.schemaExtensions}
               />
             ) : (
               <div className="bg-muted/30 rounded-lg border border-border p-6 text-center">
@@ -214,10 +312,28 @@ const Index = () => {
               </div>
             )}
           </TabsContent>
-          <TabsContent value="test" className="pt-6">
+          <TabsContent value="discovery" className="pt-6">
+            <div className="grid grid-cols-1 lg:grid-cols-[2fr,3fr] gap-6">
+              <CapabilitiesEditor
+                initialCapabilities={activeApp.capabilities}
+                onSave={handleCapabilitiesSave}
+              />
+              <DiscoveryDocuments config={activeScimConfig} appName={activeApp.name} />
+            </div>
+          </TabsContent>
+          <TabsContent value="test" className="space-y-6 pt-6">
+            <MockScimServer applicationId={activeApp.id} config={activeScimConfig} />
             <EndpointTester 
               isConfigured={isConfigured}
               applicationId={activeApp.id}
+              config={activeScimConfig}
+            />
+          </TabsContent>
+          <TabsContent value="compliance" className="pt-6">
+            <ComplianceRunner
+              isConfigured={isConfigured}
+              applicationId={activeApp.id}
+              config={activeScimConfig}
             />
           </TabsContent>
           <TabsContent value="history" className="pt-6">
@@ -225,7 +341,11 @@ const Index = () => {
           </TabsContent>
         </Tabs>
         
-        <div className="flex justify-end pt-4">
+        <div className="flex justify-end gap-2 pt-4">
+          <Button variant="outline" onClick={handleExportGateway} disabled={!isConfigured}>
+            <Server className="h-4 w-4 mr-2" />
+            Export SCIM Gateway
+          </Button>
           <Button onClick={handleExportConfig} disabled={!isConfigured}>
             <Download className="h-4 w-4 mr-2" />
             Export Configuration
@@ -1,4 +1,6 @@
 import { toast } from "sonner";
+import { ConnectorProfile, GENERIC_PROFILE, getResourceEndpoint } from "@/models/ConnectorProfile";
+import type { ScimResourceType } from "./scimUtils";
 
 // Define the history item interface
 export interface APIHistory {
@@ -16,6 +18,65 @@ export interface APIHistory {
   applicationId?: string;
 }
 
+// How the upstream API splits lists into pages
+export type PaginationStyle = 'none' | 'offset' | 'page' | 'cursor' | 'linkHeader';
+
+export interface PaginationConfig {
+  style: PaginationStyle;
+  // Page size parameter, shared by all styles (e.g. `limit`, `size`, `per_page`)
+  limitParam?: string;
+  // offset: zero-based position of the first item (e.g. `offset`, `skip`)
+  offsetParam?: string;
+  // page: page number parameter and the number of the first page (0 or 1)
+  pageParam?: string;
+  firstPage?: number;
+  // cursor: parameter carrying the cursor, and where the response holds the next
+  // cursor or next-page URL (e.g. `meta.next_cursor`, `links.next`)
+  cursorParam?: string;
+  nextPath?: string;
+  // Where the total count lives, in the body (e.g. `total`) or a header (e.g. `X-Total-Count`)
+  totalPath?: string;
+  totalHeader?: string;
+  // Largest page the upstream API will return
+  maxPageSize?: number;
+}
+
+// How OAuth client credentials are presented to the token endpoint (RFC 6749 §2.3.1)
+export type OAuthClientAuthMethod = 'basic' | 'body';
+
+// Access token obtained through the client-credentials grant
+interface CachedToken {
+  accessToken: string;
+  tokenType: string;
+  // Epoch milliseconds after which the token must not be used
+  expiresAt: number;
+}
+
+// Refresh tokens this long before they expire, to absorb clock skew and latency
+const TOKEN_EXPIRY_MARGIN_MS = 30 * 1000;
+
+// Lifetime assumed when the token endpoint omits expires_in
+const DEFAULT_TOKEN_LIFETIME_S = 3600;
+
+// Where an API key is sent
+export type ApiKeyPlacement = 'header' | 'query';
+
+export const DEFAULT_API_KEY_HEADER = 'X-API-Key';
+export const DEFAULT_API_KEY_QUERY_PARAM = 'api_key';
+
+// Header sent with every request to an application's API
+export interface StaticHeader {
+  name: string;
+  value: string;
+}
+
+// Raw response of a single upstream request
+export interface APIResponse {
+  data: unknown;
+  status: number;
+  headers: Record<string, string>;
+}
+
 // API configuration interface
 export interface APIConfig {
   baseUrl: string;
@@ -27,15 +88,30 @@ export interface APIConfig {
   customHeaderValue?: string;
   name?: string;
   apiKey?: string;
+  apiKeyPlacement?: ApiKeyPlacement;
+  // Header or query parameter carrying the API key
+  apiKeyName?: string;
   tokenUrl?: string;
   clientId?: string;
   clientSecret?: string;
+  // Space-separated scopes requested with the client-credentials grant
+  scopes?: string;
+  // Target API identifier, for providers that require it (e.g. Auth0)
+  audience?: string;
+  clientAuthMethod?: OAuthClientAuthMethod;
+  // Sent with every request, whatever the auth type
+  extraHeaders?: StaticHeader[];
+  // How this API lays out its users; the generic profile when unset
+  connector?: ConnectorProfile;
 }
 
 class ApiService {
   private currentConfig: APIConfig | null = null;
   private configStore: Map<string, APIConfig> = new Map();
   private history: APIHistory[] = [];
+  private tokenCache: Map<string, CachedToken> = new Map();
+  private pendingTokens: Map<string, Promise<CachedToken>> = new Map();
+  private historyListeners: Set<() => void> = new Set();
   
   // Set API configuration for a specific application
   setConfig(config: APIConfig, applicationId?: string): void {
@@ -45,10 +121,14 @@ class ApiService {
       this.configStore.set(applicationId, config);
     }
     
+    // Credentials may have changed, so earlier tokens are no longer trusted
+    this.clearToken(applicationId);
+    
     console.log('API configuration set:', JSON.stringify({
       ...config,
       password: config.password ? '****' : undefined,
       token: config.token ? '****' : undefined,
+      customHeaderValue: config.customHeaderValue ? '****' : undefined,
       apiKey: config.apiKey ? '****' : undefined,
       clientSecret: config.clientSecret ? '****' : undefined
     }));
@@ -62,6 +142,11 @@ class ApiService {
     return this.currentConfig;
   }
   
+  // Get the connector profile describing the API's layout
+  getConnectorProfile(applicationId?: string): ConnectorProfile {
+    return this.getConfig(applicationId)?.connector || GENERIC_PROFILE;
+  }
+  
   // Test connection to the API
   async testConnection(applicationId?: string): Promise<boolean> {
     const config = applicationId ? this.configStore.get(applicationId) : this.currentConfig;
@@ -71,19 +156,7 @@ class ApiService {
     }
     
     try {
-      // For DummyJSON, use a specific test endpoint
-      if (config.baseUrl.includes('dummyjson.com')) {
-        // Try to get the first user
-        await this.fetchData('1', { method: 'GET' }, applicationId);
-      } 
-      // For JSONPlaceholder, use a specific test endpoint
-      else if (config.baseUrl.includes('jsonplaceholder.typicode.com')) {
-        // Try to get the first user
-        await this.fetchData('1', { method: 'GET' }, applicationId);
-      } else {
-        // Attempt a simple GET request to verify connection for other APIs
-        await this.fetchData('', { method: 'GET' }, applicationId);
-      }
+      await this.fetchData(this.getConnectorProfile(applicationId).healthCheckEndpoint, { method: 'GET' }, applicationId);
       return true;
     } catch (error) {
       console.error('Test connection failed:', error);
@@ -91,6 +164,95 @@ class ApiService {
     }
   }
   
+  // Whether requests are authorized with tokens from the client-credentials grant
+  private usesClientCredentials(config: APIConfig): boolean {
+    return config.authType === 'oauth' && !!config.tokenUrl && !!config.clientId;
+  }
+  
+  // Forget the cached OAuth token so the next request acquires a new one
+  clearToken(applicationId?: string): void {
+    const key = applicationId || '';
+    this.tokenCache.delete(key);
+    this.pendingTokens.delete(key);
+  }
+  
+  // Get a valid access token, from the cache or from the token endpoint
+  private async getAccessToken(config: APIConfig, applicationId?: string): Promise<CachedToken> {
+    const key = applicationId || '';
+    const cached = this.tokenCache.get(key);
+    if (cached && cached.expiresAt - TOKEN_EXPIRY_MARGIN_MS > Date.now()) {
+      return cached;
+    }
+    
+    // Concurrent requests share one token request
+    let pending = this.pendingTokens.get(key);
+    if (!pending) {
+      pending = this.requestClientCredentialsToken(config);
+      this.pendingTokens.set(key, pending);
+    }
+    
+    try {
+      const token = await pending;
+      if (this.pendingTokens.get(key) === pending) {
+        this.tokenCache.set(key, token);
+      }
+      return token;
+    } finally {
+      if (this.pendingTokens.get(key) === pending) {
+        this.pendingTokens.delete(key);
+      }
+    }
+  }
+  
+  // Run the OAuth 2.0 client-credentials grant (RFC 6749 §4.4)
+  private async requestClientCredentialsToken(config: APIConfig): Promise<CachedToken> {
+    const body = new URLSearchParams({ grant_type: 'client_credentials' });
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'Accept': 'application/json'
+    };
+    
+    if (config.scopes?.trim()) {
+      body.set('scope', config.scopes.trim().split(/\s+/).join(' '));
+    }
+    if (config.audience?.trim()) {
+      body.set('audience', config.audience.trim());
+    }
+    
+    if (config.clientAuthMethod === 'body') {
+      body.set('client_id', config.clientId || '');
+      body.set('client_secret', config.clientSecret || '');
+    } else {
+      // Credentials are form-urlencoded before being joined, as RFC 6749 §2.3.1 requires
+      const credentials = `${encodeURIComponent(config.clientId || '')}:${encodeURIComponent(config.clientSecret || '')}`;
+      headers['Authorization'] = `Basic ${btoa(credentials)}`;
+    }
+    
+    const response = await fetch(config.tokenUrl, { method: 'POST', headers, body: body.toString() });
+    const text = await response.text();
+    let data: Record<string, unknown> = {};
+    try {
+      data = JSON.parse(text);
+    } catch (e) {
+      // Reported below as a missing access token
+    }
+    
+    if (!response.ok) {
+      const reason = [data.error, data.error_description].filter(Boolean).join(': ') || response.statusText;
+      throw new Error(`OAuth token request failed: ${response.status} ${reason}`);
+    }
+    if (typeof data.access_token !== 'string' || !data.access_token) {
+      throw new Error('OAuth token response did not include an access_token');
+    }
+    
+    const expiresIn = Number(data.expires_in) > 0 ? Number(data.expires_in) : DEFAULT_TOKEN_LIFETIME_S;
+    return {
+      accessToken: data.access_token,
+      tokenType: typeof data.token_type === 'string' && data.token_type.toLowerCase() !== 'bearer' ? data.token_type : 'Bearer',
+      expiresAt: Date.now() + expiresIn * 1000
+    };
+  }
+  
   // Build the full URL
   private buildUrl(endpoint: string, applicationId?: string): string {
     const config = applicationId ? this.configStore.get(applicationId) : this.currentConfig;
@@ -99,56 +261,69 @@ class ApiService {
       throw new Error('API configuration not set');
     }
     
-    let baseUrl = config.baseUrl;
-    
-    // Special handling for DummyJSON API
-    if (baseUrl.includes('dummyjson.com')) {
-      // Check if the URL already includes /users
-      if (!baseUrl.includes('/users')) {
-        // Remove trailing slash if present
-        baseUrl = baseUrl.endsWith('/') ? baseUrl.slice(0, -1) : baseUrl;
-        baseUrl = `${baseUrl}/users`;
-      }
-      
-      // For empty endpoints, return base URL
-      if (!endpoint) {
-        return baseUrl;
-      }
-      
-      // For numeric IDs, format correctly
-      if (/^\d+$/.test(endpoint)) {
-        return `${baseUrl}/${endpoint}`;
+    // Absolute URLs (e.g. next-page links) are used as-is, but only on the
+    // configured host: credentials are attached to them
+    if (/^https?:\/\//i.test(endpoint)) {
+      if (new URL(endpoint).origin !== new URL(config.baseUrl).origin) {
+        throw new Error(`Refusing to send credentials to ${new URL(endpoint).origin}: it is not the API's host`);
       }
+      return this.withApiKeyParam(endpoint, config);
     }
     
-    // Special handling for JSONPlaceholder API
-    if (baseUrl.includes('jsonplaceholder.typicode.com')) {
-      // Check if the URL already includes /users
-      if (!baseUrl.includes('/users')) {
-        // Remove trailing slash if present
-        baseUrl = baseUrl.endsWith('/') ? baseUrl.slice(0, -1) : baseUrl;
-        baseUrl = `${baseUrl}/users`;
-      }
-      
-      // For empty endpoints, return base URL
-      if (!endpoint) {
-        return baseUrl;
-      }
-      
-      // For numeric IDs, format correctly
-      if (/^\d+$/.test(endpoint)) {
-        return `${baseUrl}/${endpoint}`;
-      }
-    }
+    const baseUrl = config.baseUrl;
     
     // Handle trailing/leading slashes for proper URL formation
+    let url = baseUrl + endpoint;
     if (baseUrl.endsWith('/') && endpoint.startsWith('/')) {
-      return baseUrl + endpoint.substring(1);
+      url = baseUrl + endpoint.substring(1);
     } else if (!baseUrl.endsWith('/') && !endpoint.startsWith('/') && endpoint) {
-      return baseUrl + '/' + endpoint;
+      url = baseUrl + '/' + endpoint;
     }
     
-    return baseUrl + endpoint;
+    return this.withApiKeyParam(url, config);
+  }
+  
+  // Add the API key to the query string when it is configured to go there
+  private withApiKeyParam(url: string, config: APIConfig): string {
+    if (config.authType !== 'apiKey' || config.apiKeyPlacement !== 'query' || !config.apiKey) {
+      return url;
+    }
+    const param = config.apiKeyName?.trim() || DEFAULT_API_KEY_QUERY_PARAM;
+    return `${url}${url.includes('?') ? '&' : '?'}${encodeURIComponent(param)}=${encodeURIComponent(config.apiKey)}`;
+  }
+  
+  // URL safe to log: an API key placed in the query is masked
+  private redactUrl(url: string, config: APIConfig): string {
+    if (config.authType !== 'apiKey' || config.apiKeyPlacement !== 'query' || !config.apiKey) {
+      return url;
+    }
+    const param = encodeURIComponent(config.apiKeyName?.trim() || DEFAULT_API_KEY_QUERY_PARAM);
+    return url.replace(`${param}=${encodeURIComponent(config.apiKey)}`, `${param}=****`);
+  }
+  
+  // Headers safe to log: credentials are masked
+  private redactHeaders(headers: Record<string, string>, config: APIConfig): Record<string, string> {
+    const secretNames = ['authorization'];
+    if (config.authType === 'apiKey') {
+      secretNames.push((config.apiKeyName?.trim() || DEFAULT_API_KEY_HEADER).toLowerCase());
+    }
+    if (config.authType === 'custom' && config.customHeaderName) {
+      secretNames.push(config.customHeaderName.toLowerCase());
+    }
+    return Object.fromEntries(Object.entries(headers).map(([name, value]) => (
+      [name, secretNames.includes(name.toLowerCase()) ? '****' : value]
+    )));
+  }
+  
+  // Extra headers configured for the application, skipping incomplete rows
+  private getStaticHeaders(config: APIConfig): Record<string, string> {
+    const headers: Record<string, string> = {};
+    (config.extraHeaders || []).forEach(({ name, value }) => {
+      if (name.trim()) {
+        headers[name.trim()] = value;
+      }
+    });
+    return headers;
   }
   
   // Get authentication headers based on auth type
@@ -184,14 +359,18 @@ class ApiService {
         break;
         
       case 'apiKey':
-        if (config.apiKey) {
-          // Commonly used as a query parameter or header
-          headers['X-API-Key'] = config.apiKey;
+        // Keys placed in the query string are added by buildUrl
+        if (config.apiKey && config.apiKeyPlacement !== 'query') {
+          headers[config.apiKeyName?.trim() || DEFAULT_API_KEY_HEADER] = config.apiKey;
         }
         break;
         
       case 'oauth':
-        if (config.token) {
+        if (this.usesClientCredentials(config)) {
+          const token = await this.getAccessToken(config, applicationId);
+          headers['Authorization'] = `${token.tokenType} ${token.accessToken}`;
+        } else if (config.token) {
+          // A token obtained outside the app
           headers['Authorization'] = `Bearer ${config.token}`;
         }
         break;
@@ -201,6 +380,31 @@ class ApiService {
   }
   
   async fetchData(endpoint: string, options: RequestInit = {}, applicationId?: string): Promise<any> {
+    const { data } = await this.request(endpoint, options, applicationId);
+    
+    // Lists wrapped in an envelope are returned as the bare array
+    const { listEnvelopeKey } = this.getConnectorProfile(applicationId);
+    if (listEnvelopeKey && data && Array.isArray(data[listEnvelopeKey])) {
+      return data[listEnvelopeKey];
+    }
+    return data;
+  }
+  
+  // Fetch one user or group record to discover the API's fields
+  async fetchSampleRecord(applicationId?: string, resourceType: ScimResourceType = 'User'): Promise<unknown> {
+    const endpoint = getResourceEndpoint(this.getConnectorProfile(applicationId), resourceType);
+    if (!endpoint) {
+      throw new Error(`No upstream path configured for ${resourceType.toLowerCase()}s`);
+    }
+    
+    const { data } = await this.request(endpoint.resourcePath, { method: 'GET' }, applicationId);
+    const { listEnvelopeKey } = endpoint;
+    const items = listEnvelopeKey && data && Array.isArray(data[listEnvelopeKey]) ? data[listEnvelopeKey] : data;
+    return Array.isArray(items) ? items[0] : items;
+  }
+  
+  // Send a request and return the untouched body together with status and headers
+  async request(endpoint: string, options: RequestInit = {}, applicationId?: string): Promise<APIResponse> {
     const config = applicationId ? this.configStore.get(applicationId) : this.currentConfig;
     
     if (!config) {
@@ -212,30 +416,46 @@ class ApiService {
     let status = 0;
     let success = false;
     let responseData;
-    let responseHeaders = {};
+    const responseHeaders: Record<string, string> = {};
     
     try {
       const url = this.buildUrl(endpoint, applicationId);
       
       // Only get auth headers if auth type is not 'none' 
-      const requestHeaders = config.authType !== 'none' 
-        ? await this.getAuthHeaders(applicationId)
-        : { 'Content-Type': 'application/json' };
+      let requestHeaders = {
+        ...(config.authType !== 'none' 
+          ? await this.getAuthHeaders(applicationId)
+          : { 'Content-Type': 'application/json' }),
+        ...this.getStaticHeaders(config)
+      };
       
-      console.log(`Making API request to: ${url}`);
-      console.log('With headers:', JSON.stringify(requestHeaders));
+      console.log(`Making API request to: ${this.redactUrl(url, config)}`);
+      console.log('With headers:', JSON.stringify(this.redactHeaders(requestHeaders, config)));
       console.log('With options:', JSON.stringify({
         ...options,
         body: options.body ? '(request body present)' : undefined
       }));
       
-      const response = await fetch(url, {
+      let response = await fetch(url, {
         ...options,
         headers: {
           ...requestHeaders,
           ...(options.headers || {})
         }
       });
+      
+      // The token may have been revoked before it expired: get a new one and retry once
+      if (response.status === 401 && this.usesClientCredentials(config)) {
+        this.clearToken(applicationId);
+        requestHeaders = { ...(await this.getAuthHeaders(applicationId)), ...this.getStaticHeaders(config) };
+        response = await fetch(url, {
+          ...options,
+          headers: {
+            ...requestHeaders,
+            ...(options.headers || {})
+          }
+        });
+      }
 
       status = response.status;
       const duration = performance.now() - startTime;
@@ -251,16 +471,6 @@ class ApiService {
       if (contentType && contentType.includes('application/json')) {
         responseData = await response.json();
         console.log('JSON response received:', responseData);
-        
-        // Special handling for DummyJSON API response format
-        if (config.baseUrl.includes('dummyjson.com')) {
-          if (responseData.users && Array.isArray(responseData.users)) {
-            // When getting a list of users, return the users array
-            responseData = responseData.users;
-          }
-        }
-        
-        // No special handling needed for JSONPlaceholder as it returns arrays directly
       } else {
         const textData = await response.text();
         console.log('Non-JSON response received:', textData);
@@ -269,14 +479,6 @@ class ApiService {
           // Try to parse as JSON anyway in case the content-type header is wrong
           responseData = JSON.parse(textData);
           console.log('Successfully parsed response as JSON despite content-type');
-          
-          // Special handling for DummyJSON API response format
-          if (config.baseUrl.includes('dummyjson.com')) {
-            if (responseData.users && Array.isArray(responseData.users)) {
-              // When getting a list of users, return the users array
-              responseData = responseData.users;
-            }
-          }
         } catch (e) {
           // If it's not valid JSON, use the text as is
           responseData = { text: textData };
@@ -291,23 +493,23 @@ class ApiService {
       
       success = true;
       
-      // Add to history with enhanced data
+      // Add to history with enhanced data; credentials are masked as in the logs
       this.addHistoryItem({
         timestamp: Date.now(),
         method: options.method || 'GET',
-        endpoint,
+        endpoint: this.redactUrl(endpoint, config),
         baseUrl: config.baseUrl,
         status,
         duration,
         success,
         requestData: options.body ? JSON.parse(options.body.toString()) : undefined,
         responseData,
-        requestHeaders,
+        requestHeaders: this.redactHeaders(requestHeaders, config),
         responseHeaders,
         applicationId
       });
       
-      return responseData;
+      return { data: responseData, status, headers: responseHeaders };
     } catch (error) {
       const duration = performance.now() - startTime;
       console.error('API request failed:', error);
@@ -316,14 +518,14 @@ class ApiService {
       this.addHistoryItem({
         timestamp: Date.now(),
         method: options.method || 'GET',
-        endpoint,
+        endpoint: this.redactUrl(endpoint, config),
         baseUrl: config?.baseUrl,
         status,
         duration,
         success,
         requestData: options.body ? JSON.parse(options.body.toString()) : undefined,
         responseData,
-        requestHeaders: options.headers as Record<string, string>,
+        requestHeaders: options.headers && this.redactHeaders(options.headers as Record<string, string>, config),
         responseHeaders,
         applicationId
       });
@@ -335,14 +537,28 @@ class ApiService {
     }
   }
   
-  // Add an item to the history
-  private addHistoryItem(item: APIHistory): void {
+  // Add an item to the history; also records SCIM requests answered by the facade
+  addHistoryItem(item: APIHistory): void {
     this.history.unshift(item); // Add to the start of the array
     
     // Limit history to 50 items
     if (this.history.length > 50) {
       this.history = this.history.slice(0, 50);
     }
+    
+    this.notifyHistoryListeners();
+  }
+  
+  // Register a callback run whenever the history changes; returns the unsubscribe function
+  subscribeToHistory(listener: () => void): () => void {
+    this.historyListeners.add(listener);
+    return () => {
+      this.historyListeners.delete(listener);
+    };
+  }
+  
+  private notifyHistoryListeners(): void {
+    this.historyListeners.forEach(listener => listener());
   }
   
   // Get the request history, optionally filtered by applicationId
@@ -360,6 +576,8 @@ class ApiService {
     } else {
       this.history = [];
     }
+    
+    this.notifyHistoryListeners();
   }
 }
 
@@ -0,0 +1,588 @@
+import { format, isValid, parseISO } from 'date-fns';
+
+/**
+ * Sandboxed expression language used by mapping transformations.
+ *
+ * The syntax is a small, JavaScript-like subset: literals, identifiers bound in
+ * the evaluation scope, member access, arithmetic/comparison/logical operators,
+ * the ternary operator and calls to a whitelisted function library. Functions
+ * can be called directly (`lower(value)`) or with method syntax
+ * (`value.lower()`), where the receiver becomes the first argument.
+ *
+ * Nothing is ever resolved against the global object: identifiers only come
+ * from the scope passed to the evaluator and calls only reach the library below.
+ */
+
+export type ExpressionNode =
+  | { type: 'Literal'; value: unknown }
+  | { type: 'Identifier'; name: string }
+  | { type: 'Array'; elements: ExpressionNode[] }
+  | { type: 'Member'; object: ExpressionNode; property: ExpressionNode; computed: boolean }
+  | { type: 'Call'; callee: string; args: ExpressionNode[] }
+  | { type: 'Unary'; operator: string; argument: ExpressionNode }
+  | { type: 'Binary'; operator: string; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'Logical'; operator: string; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'Conditional'; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode };
+
+export type ExpressionScope = Record<string, unknown>;
+
+export class ExpressionError extends Error {
+  position?: number;
+
+  constructor(message: string, position?: number) {
+    super(position !== undefined ? `${message} (at position ${position + 1})` : message);
+    this.name = 'ExpressionError';
+    this.position = position;
+  }
+}
+
+type TokenType = 'number' | 'string' | 'identifier' | 'punctuator' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+// Longest operators first so the tokenizer is greedy
+const PUNCTUATORS = [
+  '===', '!==', '==', '!=', '<=', '>=', '&&', '||', '??',
+  '+', '-', '*', '/', '%', '<', '>', '!', '?', ':', '.', ',', '(', ')', '[', ']'
+];
+
+const KEYWORDS: Record<string, unknown> = {
+  true: true,
+  false: false,
+  null: null,
+  undefined: undefined
+};
+
+// Property names that would let an expression walk out of plain data
+const FORBIDDEN_PROPERTIES = new Set(['__proto__', 'prototype', 'constructor']);
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  while (pos < source.length) {
+    const char = source[pos];
+
+    if (/\s/.test(char)) {
+      pos++;
+      continue;
+    }
+
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(source[pos + 1] || ''))) {
+      const match = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(source.slice(pos));
+      tokens.push({ type: 'number', value: match[0], position: pos });
+      pos += match[0].length;
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(char)) {
+      const match = /^[A-Za-z_$][A-Za-z0-9_$]*/.exec(source.slice(pos));
+      tokens.push({ type: 'identifier', value: match[0], position: pos });
+      pos += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const start = pos;
+      let value = '';
+      pos++;
+      while (pos < source.length && source[pos] !== char) {
+        if (source[pos] === '\\') {
+          const next = source[pos + 1];
+          const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', '\\': '\\', '"': '"', "'": "'" };
+          if (next === undefined) break;
+          value += escapes[next] ?? next;
+          pos += 2;
+        } else {
+          value += source[pos];
+          pos++;
+        }
+      }
+      if (source[pos] !== char) {
+        throw new ExpressionError('Unterminated string literal', start);
+      }
+      pos++;
+      tokens.push({ type: 'string', value, position: start });
+      continue;
+    }
+
+    const punctuator = PUNCTUATORS.find(p => source.startsWith(p, pos));
+    if (punctuator) {
+      tokens.push({ type: 'punctuator', value: punctuator, position: pos });
+      pos += punctuator.length;
+      continue;
+    }
+
+    throw new ExpressionError(`Unexpected character "${char}"`, pos);
+  }
+
+  tokens.push({ type: 'eof', value: '', position: source.length });
+  return tokens;
+};
+
+class Parser {
+  private tokens: Token[];
+  private index = 0;
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+
+  parse(): ExpressionNode {
+    const node = this.parseConditional();
+    const token = this.peek();
+    if (token.type !== 'eof') {
+      throw new ExpressionError(`Unexpected token "${token.value}"`, token.position);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private match(...values: string[]): Token | null {
+    const token = this.peek();
+    if (token.type === 'punctuator' && values.includes(token.value)) {
+      this.index++;
+      return token;
+    }
+    return null;
+  }
+
+  private expect(value: string): Token {
+    const token = this.peek();
+    if (token.type !== 'punctuator' || token.value !== value) {
+      const found = token.type === 'eof' ? 'end of expression' : `"${token.value}"`;
+      throw new ExpressionError(`Expected "${value}" but found ${found}`, token.position);
+    }
+    return this.next();
+  }
+
+  private parseConditional(): ExpressionNode {
+    const test = this.parseBinary(0);
+    if (this.match('?')) {
+      const consequent = this.parseConditional();
+      this.expect(':');
+      const alternate = this.parseConditional();
+      return { type: 'Conditional', test, consequent, alternate };
+    }
+    return test;
+  }
+
+  // Binary operators grouped by precedence, lowest first
+  private static readonly LEVELS: string[][] = [
+    ['??'],
+    ['||'],
+    ['&&'],
+    ['==', '!=', '===', '!=='],
+    ['<', '>', '<=', '>='],
+    ['+', '-'],
+    ['*', '/', '%']
+  ];
+
+  private parseBinary(level: number): ExpressionNode {
+    if (level >= Parser.LEVELS.length) {
+      return this.parseUnary();
+    }
+
+    let left = this.parseBinary(level + 1);
+    let token = this.match(...Parser.LEVELS[level]);
+    while (token) {
+      const right = this.parseBinary(level + 1);
+      const logical = token.value === '&&' || token.value === '||' || token.value === '??';
+      left = logical
+        ? { type: 'Logical', operator: token.value, left, right }
+        : { type: 'Binary', operator: token.value, left, right };
+      token = this.match(...Parser.LEVELS[level]);
+    }
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.match('!', '-', '+');
+    if (token) {
+      return { type: 'Unary', operator: token.value, argument: this.parseUnary() };
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): ExpressionNode {
+    let node = this.parsePrimary();
+
+    for (;;) {
+      if (this.match('.')) {
+        const token = this.next();
+        if (token.type !== 'identifier') {
+          throw new ExpressionError('Expected property name after "."', token.position);
+        }
+        if (this.peek().type === 'punctuator' && this.peek().value === '(') {
+          // Method syntax: receiver.fn(a, b) is sugar for fn(receiver, a, b)
+          this.next();
+          node = { type: 'Call', callee: token.value, args: [node, ...this.parseArguments()] };
+          this.assertKnownFunction(token);
+        } else {
+          node = { type: 'Member', object: node, property: { type: 'Literal', value: token.value }, computed: false };
+        }
+      } else if (this.match('[')) {
+        const property = this.parseConditional();
+        this.expect(']');
+        node = { type: 'Member', object: node, property, computed: true };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parseArguments(): ExpressionNode[] {
+    const args: ExpressionNode[] = [];
+    if (this.match(')')) {
+      return args;
+    }
+    do {
+      args.push(this.parseConditional());
+    } while (this.match(','));
+    this.expect(')');
+    return args;
+  }
+
+  private assertKnownFunction(token: Token): void {
+    if (!resolveFunction(token.value)) {
+      throw new ExpressionError(`Unknown function "${token.value}"`, token.position);
+    }
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+        return { type: 'Literal', value: Number(token.value) };
+
+      case 'string':
+        return { type: 'Literal', value: token.value };
+
+      case 'identifier':
+        if (Object.prototype.hasOwnProperty.call(KEYWORDS, token.value)) {
+          return { type: 'Literal', value: KEYWORDS[token.value] };
+        }
+        if (this.peek().type === 'punctuator' && this.peek().value === '(') {
+          this.next();
+          this.assertKnownFunction(token);
+          return { type: 'Call', callee: token.value, args: this.parseArguments() };
+        }
+        return { type: 'Identifier', name: token.value };
+
+      case 'punctuator':
+        if (token.value === '(') {
+          const node = this.parseConditional();
+          this.expect(')');
+          return node;
+        }
+        if (token.value === '[') {
+          const elements: ExpressionNode[] = [];
+          if (!this.match(']')) {
+            do {
+              elements.push(this.parseConditional());
+            } while (this.match(','));
+            this.expect(']');
+          }
+          return { type: 'Array', elements };
+        }
+        break;
+    }
+
+    const found = token.type === 'eof' ? 'end of expression' : `"${token.value}"`;
+    throw new ExpressionError(`Unexpected ${found}`, token.position);
+  }
+}
+
+const toText = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const toDate = (value: unknown): Date | null => {
+  if (value instanceof Date) return isValid(value) ? value : null;
+  if (typeof value === 'number') return new Date(value);
+  if (typeof value === 'string' && value) {
+    const parsed = parseISO(value);
+    if (isValid(parsed)) return parsed;
+    const fallback = new Date(value);
+    return isValid(fallback) ? fallback : null;
+  }
+  return null;
+};
+
+/**
+ * Whitelisted function library available to expressions
+ */
+export const expressionFunctions: Record<string, (...args: unknown[]) => unknown> = {
+  split: (value, separator = ',', limit) =>
+    toText(value).split(toText(separator), typeof limit === 'number' ? limit : undefined),
+  join: (value, separator = ',') =>
+    Array.isArray(value) ? value.map(toText).join(toText(separator)) : toText(value),
+  lower: value => toText(value).toLowerCase(),
+  upper: value => toText(value).toUpperCase(),
+  trim: value => toText(value).trim(),
+  concat: (...values) => Array.isArray(values[0])
+    ? ([] as unknown[]).concat(...values)
+    : values.map(toText).join(''),
+  coalesce: (...values) => values.find(v => v !== null && v !== undefined && v !== ''),
+  substring: (value, start, end) =>
+    toText(value).substring(Number(start) || 0, end === undefined ? undefined : Number(end)),
+  slice: (value, start, end) => {
+    const from = Number(start) || 0;
+    const to = end === undefined ? undefined : Number(end);
+    return Array.isArray(value) ? value.slice(from, to) : toText(value).slice(from, to);
+  },
+  regexReplace: (value, pattern, replacement = '', flags = 'g') => {
+    const flagText = toText(flags);
+    if (!/^[gimsu]*$/.test(flagText)) {
+      throw new ExpressionError(`Invalid regular expression flags "${flagText}"`);
+    }
+    return toText(value).replace(new RegExp(toText(pattern), flagText), toText(replacement));
+  },
+  toBoolean: value => {
+    if (typeof value === 'string') {
+      const normalized = value.trim().toLowerCase();
+      if (['true', '1', 'yes', 'y', 'on'].includes(normalized)) return true;
+      if (['false', '0', 'no', 'n', 'off', ''].includes(normalized)) return false;
+    }
+    return Boolean(value);
+  },
+  toString: value => toText(value),
+  toNumber: value => (value === null || value === undefined || value === '' ? undefined : Number(value)),
+  formatDate: (value, pattern) => {
+    const date = toDate(value);
+    if (!date) return undefined;
+    return pattern === undefined ? date.toISOString() : format(date, toText(pattern));
+  },
+  now: () => new Date().toISOString()
+};
+
+// JavaScript spellings kept so transformations written before the sandbox still parse
+const FUNCTION_ALIASES: Record<string, string> = {
+  Boolean: 'toBoolean',
+  String: 'toString',
+  Number: 'toNumber',
+  toLowerCase: 'lower',
+  toUpperCase: 'upper'
+};
+
+const resolveFunction = (name: string): ((...args: unknown[]) => unknown) | undefined => {
+  const resolved = Object.prototype.hasOwnProperty.call(FUNCTION_ALIASES, name) ? FUNCTION_ALIASES[name] : name;
+  return Object.prototype.hasOwnProperty.call(expressionFunctions, resolved)
+    ? expressionFunctions[resolved]
+    : undefined;
+};
+
+const readProperty = (object: unknown, property: unknown): unknown => {
+  if (object === null || object === undefined) {
+    return undefined;
+  }
+
+  const key = typeof property === 'number' ? property : toText(property);
+  if (typeof key === 'string' && FORBIDDEN_PROPERTIES.has(key)) {
+    throw new ExpressionError(`Access to "${key}" is not allowed`);
+  }
+
+  if (typeof object === 'string' || Array.isArray(object)) {
+    if (key === 'length') return object.length;
+    const index = typeof key === 'number' ? key : /^\d+$/.test(key) ? Number(key) : NaN;
+    return Number.isInteger(index) ? object[index] : undefined;
+  }
+
+  if (typeof object === 'object' && Object.prototype.hasOwnProperty.call(object, key)) {
+    return (object as Record<string | number, unknown>)[key];
+  }
+
+  return undefined;
+};
+
+const evaluateNode = (node: ExpressionNode, scope: ExpressionScope): unknown => {
+  switch (node.type) {
+    case 'Literal':
+      return node.value;
+
+    case 'Identifier':
+      if (!Object.prototype.hasOwnProperty.call(scope, node.name)) {
+        throw new ExpressionError(`Unknown identifier "${node.name}"`);
+      }
+      return scope[node.name];
+
+    case 'Array':
+      return node.elements.map(element => evaluateNode(element, scope));
+
+    case 'Member':
+      return readProperty(evaluateNode(node.object, scope), evaluateNode(node.property, scope));
+
+    case 'Call': {
+      const fn = resolveFunction(node.callee);
+      if (!fn) {
+        throw new ExpressionError(`Unknown function "${node.callee}"`);
+      }
+      return fn(...node.args.map(arg => evaluateNode(arg, scope)));
+    }
+
+    case 'Unary': {
+      const argument = evaluateNode(node.argument, scope);
+      if (node.operator === '!') return !argument;
+      if (node.operator === '-') return -Number(argument);
+      return Number(argument);
+    }
+
+    case 'Logical': {
+      const left = evaluateNode(node.left, scope);
+      if (node.operator === '&&') return left ? evaluateNode(node.right, scope) : left;
+      if (node.operator === '||') return left ? left : evaluateNode(node.right, scope);
+      return left === null || left === undefined ? evaluateNode(node.right, scope) : left;
+    }
+
+    case 'Binary': {
+      const left = evaluateNode(node.left, scope);
+      const right = evaluateNode(node.right, scope);
+      switch (node.operator) {
+        case '+':
+          return typeof left === 'number' && typeof right === 'number'
+            ? left + right
+            : toText(left) + toText(right);
+        case '-': return Number(left) - Number(right);
+        case '*': return Number(left) * Number(right);
+        case '/': return Number(left) / Number(right);
+        case '%': return Number(left) % Number(right);
+        // Loose and strict equality both compare strictly; there is no type juggling
+        case '==':
+        case '===': return left === right;
+        case '!=':
+        case '!==': return left !== right;
+        case '<': return (left as number) < (right as number);
+        case '>': return (left as number) > (right as number);
+        case '<=': return (left as number) <= (right as number);
+        case '>=': return (left as number) >= (right as number);
+      }
+      throw new ExpressionError(`Unsupported operator "${node.operator}"`);
+    }
+
+    case 'Conditional':
+      return evaluateNode(node.test, scope)
+        ? evaluateNode(node.consequent, scope)
+        : evaluateNode(node.alternate, scope);
+  }
+};
+
+const parseCache = new Map<string, ExpressionNode>();
+
+/**
+ * Parse an expression into an AST, throwing an ExpressionError on syntax errors
+ */
+export const parseExpression = (source: string): ExpressionNode => {
+  const cached = parseCache.get(source);
+  if (cached) {
+    return cached;
+  }
+
+  if (!source.trim()) {
+    throw new ExpressionError('Expression is empty');
+  }
+
+  const ast = new Parser(tokenize(source)).parse();
+  parseCache.set(source, ast);
+  return ast;
+};
+
+/**
+ * Evaluate an expression against the given scope
+ */
+export const evaluateExpression = (source: string, scope: ExpressionScope): unknown => {
+  return evaluateNode(parseExpression(source), scope);
+};
+
+/**
+ * Check an expression for syntax errors, returning the error message if any
+ */
+export const validateExpression = (source: string): string | null => {
+  if (!source || !source.trim()) {
+    return null;
+  }
+  try {
+    parseExpression(source);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+};
+
+/**
+ * List the dotted paths an expression reads from the given root identifier,
+ * e.g. `source.name.first` yields `name.first` for the root `source`
+ */
+export const collectReferences = (source: string, root: string): string[] => {
+  let ast: ExpressionNode;
+  try {
+    ast = parseExpression(source);
+  } catch {
+    return [];
+  }
+
+  const paths = new Set<string>();
+
+  // Resolve a member chain to its path below the root, or null if it isn't one
+  const memberPath = (node: ExpressionNode): string[] | null => {
+    if (node.type === 'Identifier') {
+      return node.name === root ? [] : null;
+    }
+    if (node.type === 'Member' && node.property.type === 'Literal') {
+      const parent = memberPath(node.object);
+      return parent ? [...parent, String(node.property.value)] : null;
+    }
+    return null;
+  };
+
+  const visit = (node: ExpressionNode): void => {
+    const path = memberPath(node);
+    if (path) {
+      if (path.length > 0) paths.add(path.join('.'));
+      return;
+    }
+
+    switch (node.type) {
+      case 'Array':
+        node.elements.forEach(visit);
+        break;
+      case 'Member':
+        visit(node.object);
+        visit(node.property);
+        break;
+      case 'Call':
+        node.args.forEach(visit);
+        break;
+      case 'Unary':
+        visit(node.argument);
+        break;
+      case 'Binary':
+      case 'Logical':
+        visit(node.left);
+        visit(node.right);
+        break;
+      case 'Conditional':
+        visit(node.test);
+        visit(node.consequent);
+        visit(node.alternate);
+        break;
+    }
+  };
+
+  visit(ast);
+  return [...paths];
+};
@@ -0,0 +1,113 @@
+import { MappingItem } from '@/models/ApplicationConfig';
+import { CompareOperator, FilterNode } from './scimFilter';
+
+/**
+ * Translates SCIM filters into native upstream query parameters using the
+ * `queryParams` declared on each mapping. Only comparisons joined by `and`
+ * at the top level can be pushed down; everything else stays local.
+ */
+
+export interface FilterTranslation {
+  // Query parameters to send upstream
+  query: Record<string, string>;
+  // Comparisons that were turned into query parameters
+  pushedDown: FilterNode[];
+  // What the upstream API cannot evaluate, or null if everything was pushed down
+  residual: FilterNode | null;
+}
+
+/**
+ * Normalize a SCIM attribute path for comparison: drop array indexes and case,
+ * so `emails[0].value` and `Emails.Value` both become `emails.value`
+ */
+export const normalizeAttributePath = (path: string): string => {
+  return path.replace(/\[\d+\]/g, '').toLowerCase();
+};
+
+// Every filter path a mapping can answer, e.g. `emails` and `emails.value` for a multi-valued mapping
+const getMappingPaths = (mapping: MappingItem): string[] => {
+  const base = normalizeAttributePath(mapping.scimAttribute);
+  if (!mapping.multiValued) {
+    return [base];
+  }
+  const valueMapped = mapping.multiValued.subMappings.some(sub => sub.subAttribute === 'value');
+  return valueMapped ? [base, `${base}.value`] : [];
+};
+
+/**
+ * Find the mapping that owns a filter attribute path
+ */
+export const findMappingForAttribute = (mappings: MappingItem[], attrPath: string): MappingItem | undefined => {
+  const normalized = normalizeAttributePath(attrPath);
+  return mappings.find(mapping => getMappingPaths(mapping).includes(normalized));
+};
+
+// Flatten `a and (b and c)` into [a, b, c]
+const collectConjuncts = (node: FilterNode): FilterNode[] => {
+  if (node.type === 'logical' && node.operator === 'and') {
+    return [...collectConjuncts(node.left), ...collectConjuncts(node.right)];
+  }
+  return [node];
+};
+
+// `emails[value co "x"]` with a single comparison is the same as `emails.value co "x"`
+const toComparison = (node: FilterNode): { attrPath: string; operator: CompareOperator; value: unknown } | null => {
+  if (node.type === 'compare' && node.operator !== 'pr') {
+    return { attrPath: node.attrPath, operator: node.operator, value: node.value };
+  }
+  if (node.type === 'valuePath' && node.filter.type === 'compare' && node.filter.operator !== 'pr') {
+    return {
+      attrPath: `${node.attrPath}.${node.filter.attrPath}`,
+      operator: node.filter.operator,
+      value: node.filter.value
+    };
+  }
+  return null;
+};
+
+// Whether the mapping, or any sub-attribute of a multi-valued one, computes its value
+const isTransformed = (mapping: MappingItem): boolean => {
+  return !!mapping.transformation || !!mapping.multiValued?.subMappings.some(subMapping => subMapping.transformation);
+};
+
+/**
+ * Split a parsed filter into upstream query parameters and a local residual
+ */
+export const translateFilter = (node: FilterNode, mappings: MappingItem[]): FilterTranslation => {
+  const query: Record<string, string> = {};
+  const pushedDown: FilterNode[] = [];
+  const remaining: FilterNode[] = [];
+
+  collectConjuncts(node).forEach(conjunct => {
+    const comparison = toComparison(conjunct);
+    const mapping = comparison && findMappingForAttribute(mappings, comparison.attrPath);
+    const param = mapping?.queryParams?.[comparison.operator];
+
+    // Transformed values differ from what the upstream API stores, and each
+    // parameter can only carry one value
+    if (!param || isTransformed(mapping) || comparison.value === null || param in query) {
+      remaining.push(conjunct);
+      return;
+    }
+
+    query[param] = String(comparison.value);
+    pushedDown.push(conjunct);
+  });
+
+  const residual = remaining.length === 0
+    ? null
+    : remaining.reduce((left, right) => ({ type: 'logical', operator: 'and', left, right }));
+
+  return { query, pushedDown, residual };
+};
+
+/**
+ * Append query parameters to an endpoint that may already have a query string
+ */
+export const appendQueryParams = (endpoint: string, query: Record<string, string>): string => {
+  const params = new URLSearchParams(query).toString();
+  if (!params) {
+    return endpoint;
+  }
+  return `${endpoint}${endpoint.includes('?') ? '&' : '?'}${params}`;
+};
@@ -0,0 +1,186 @@
+import { ApplicationConfig } from '@/models/ApplicationConfig';
+import { APIConfig } from './apiService';
+import { ScimConfig, toScimConfig } from './scimUtils';
+import { ZipEntry } from './zip';
+import serverSource from '../../templates/scim-gateway/src/server.ts?raw';
+import runtimeSource from '../../templates/scim-gateway/src/runtime.ts?raw';
+import sonnerShimSource from '../../templates/scim-gateway/src/shims/sonner.ts?raw';
+import tsconfigSource from '../../templates/scim-gateway/tsconfig.json?raw';
+import readmeTemplate from '../../templates/scim-gateway/README.md?raw';
+import rootPackageSource from '../../package.json?raw';
+
+/**
+ * Exports an application as a standalone Node.js SCIM gateway: the server
+ * template, the mapper's own SCIM modules and the application's settings, with
+ * every credential replaced by an environment variable.
+ */
+
+// The mapper's modules, shipped as they are so the gateway translates exactly like the mapper
+const MAPPER_SOURCES = import.meta.glob<string>(
+  ['/src/utils/*.ts', '/src/models/*.ts', '!/src/utils/gatewayExport.ts', '!/src/utils/zip.ts', '!/src/utils/scimFacade.ts'],
+  { query: '?raw', import: 'default', eager: true }
+);
+
+// Bare module specifiers imported by a source file, e.g. `date-fns`
+const IMPORT_SPECIFIER = /^\s*(?:import|export)\s+(?:type\s+)?(?:[^'"]*?\s+from\s+)?['"]([^'"]+)['"]/gm;
+
+/**
+ * npm dependencies of the shipped mapper modules, at the versions the mapper
+ * itself uses. Packages the template replaces with a shim are left out.
+ */
+const getMapperDependencies = (): Record<string, string> => {
+  const rootPackage = JSON.parse(rootPackageSource);
+  const versions: Record<string, string> = { ...rootPackage.devDependencies, ...rootPackage.dependencies };
+  const shimmed = Object.keys(JSON.parse(tsconfigSource).compilerOptions?.paths || {});
+  const dependencies: Record<string, string> = {};
+
+  for (const source of Object.values(MAPPER_SOURCES)) {
+    for (const [, specifier] of source.matchAll(IMPORT_SPECIFIER)) {
+      if (/^(\.|\/|@\/|node:)/.test(specifier)) {
+        continue;
+      }
+      const name = specifier.split('/').slice(0, specifier.startsWith('@') ? 2 : 1).join('/');
+      if (!shimmed.includes(name)) {
+        dependencies[name] = versions[name] || 'latest';
+      }
+    }
+  }
+  return dependencies;
+};
+
+// Environment variable read by the gateway
+interface GatewayVariable {
+  name: string;
+  description: string;
+  // Written to .env.example
+  example?: string;
+}
+
+// Credentials of the upstream API and the variables that replace them
+const SECRET_FIELDS: { field: keyof APIConfig; variable: string; description: string }[] = [
+  { field: 'password', variable: 'UPSTREAM_PASSWORD', description: 'Password for basic authentication to the upstream API' },
+  { field: 'token', variable: 'UPSTREAM_TOKEN', description: 'Bearer token for the upstream API' },
+  { field: 'customHeaderValue', variable: 'UPSTREAM_CUSTOM_HEADER_VALUE', description: 'Value of the custom authentication header' },
+  { field: 'apiKey', variable: 'UPSTREAM_API_KEY', description: 'API key for the upstream API' },
+  { field: 'clientSecret', variable: 'UPSTREAM_CLIENT_SECRET', description: 'OAuth client secret for the upstream API' },
+];
+
+const GATEWAY_VARIABLES: GatewayVariable[] = [
+  { name: 'PORT', description: 'Port the gateway listens on', example: '3000' },
+  { name: 'SCIM_BEARER_TOKEN', description: 'Bearer token SCIM clients must send; requests are not authenticated when empty' },
+];
+
+// Stands in for a variable in generated code until it is replaced by an `env()` call
+const placeholder = (variable: string) => `__GATEWAY_ENV_${variable}__`;
+
+const toEnvName = (name: string) => name.replace(/[^a-zA-Z0-9]+/g, '_').replace(/^_|_$/g, '').toUpperCase();
+
+/**
+ * Upstream settings with credentials swapped for placeholders, and the
+ * variables the gateway needs as a result
+ */
+const extractGatewayVariables = (apiConfig: APIConfig): { apiConfig: APIConfig; variables: GatewayVariable[] } => {
+  const variables: GatewayVariable[] = [
+    ...GATEWAY_VARIABLES,
+    { name: 'UPSTREAM_BASE_URL', description: `Base URL of the upstream API; ${apiConfig.baseUrl} when empty` }
+  ];
+  const sanitized: APIConfig = { ...apiConfig };
+
+  for (const { field, variable, description } of SECRET_FIELDS) {
+    if (sanitized[field]) {
+      (sanitized as unknown as Record<string, unknown>)[field] = placeholder(variable);
+      variables.push({ name: variable, description });
+    }
+  }
+
+  // Static headers often carry keys or tenant secrets, so none of their values are exported
+  sanitized.extraHeaders = apiConfig.extraHeaders?.map(header => {
+    const variable = `UPSTREAM_HEADER_${toEnvName(header.name)}`;
+    variables.push({ name: variable, description: `Value of the ${header.name} header sent upstream` });
+    return { ...header, value: placeholder(variable) };
+  });
+
+  return { apiConfig: sanitized, variables };
+};
+
+// Generated TypeScript for a value, with placeholders turned into environment lookups
+const toSource = (value: unknown, fallbacks: Record<string, string>): string => {
+  return JSON.stringify(value, null, 2).replace(/"__GATEWAY_ENV_([A-Z0-9_]+)__"/g, (match, variable: string) => {
+    return variable in fallbacks ? `env('${variable}', ${JSON.stringify(fallbacks[variable])})` : `env('${variable}')`;
+  });
+};
+
+const buildApplicationSource = (app: ApplicationConfig, apiConfig: APIConfig): string => {
+  const baseUrl = placeholder('UPSTREAM_BASE_URL');
+  const scimConfig: ScimConfig = toScimConfig({ ...app, apiConfig: { ...app.apiConfig, baseUrl } });
+  // The upstream URL can be overridden, e.g. for a staging instance
+  const fallbacks = { UPSTREAM_BASE_URL: app.apiConfig.baseUrl };
+
+  return [
+    `// Generated by SCIM Magic Mapper from "${app.name}". Export again instead of editing by hand.`,
+    `import { APIConfig } from '@/utils/apiService';`,
+    `import { ScimConfig } from '@/utils/scimUtils';`,
+    '',
+    `const env = (name: string, fallback: string = ''): string => process.env[name] || fallback;`,
+    '',
+    `export const APPLICATION_ID = ${JSON.stringify(app.id)};`,
+    `export const APPLICATION_NAME = ${JSON.stringify(app.name)};`,
+    '',
+    `export const API_CONFIG: APIConfig = ${toSource({ ...apiConfig, baseUrl }, fallbacks)};`,
+    '',
+    `export const SCIM_CONFIG: ScimConfig = ${toSource(scimConfig, fallbacks)};`,
+    ''
+  ].join('\n');
+};
+
+/**
+ * Files of the gateway project for an application, under a folder named after it
+ */
+export const buildGatewayProject = (app: ApplicationConfig): ZipEntry[] => {
+  const slug = app.name.replace(/\s+/g, '-').toLowerCase();
+  const root = `${slug}-scim-gateway`;
+  const { apiConfig, variables } = extractGatewayVariables(app.apiConfig);
+
+  const packageJson = {
+    name: root,
+    version: '1.0.0',
+    private: true,
+    type: 'module',
+    scripts: {
+      start: 'tsx --env-file=.env src/server.ts',
+      typecheck: 'tsc --noEmit'
+    },
+    dependencies: {
+      tsx: '^4.19.0',
+      ...getMapperDependencies()
+    },
+    devDependencies: {
+      '@types/node': '^22.5.5',
+      typescript: '^5.5.3'
+    }
+  };
+
+  const envExample = variables
+    .map(variable => `# ${variable.description}\n${variable.name}=${variable.example ?? ''}`)
+    .join('\n\n');
+
+  const readme = readmeTemplate
+    .replace(/\{\{name\}\}/g, () => app.name)
+    .replace(/\{\{baseUrl\}\}/g, () => app.apiConfig.baseUrl)
+    .replace('{{environment}}', () => variables.map(variable => `| \`${variable.name}\` | ${variable.description} |`).join('\n'));
+
+  const files: ZipEntry[] = [
+    { path: 'package.json', content: `${JSON.stringify(packageJson, null, 2)}\n` },
+    { path: 'tsconfig.json', content: tsconfigSource },
+    { path: 'README.md', content: readme },
+    { path: '.env.example', content: `${envExample}\n` },
+    { path: '.gitignore', content: 'node_modules\n.env\n' },
+    { path: 'src/server.ts', content: serverSource },
+    { path: 'src/runtime.ts', content: runtimeSource },
+    { path: 'src/shims/sonner.ts', content: sonnerShimSource },
+    { path: 'src/application.ts', content: buildApplicationSource(app, apiConfig) },
+    ...Object.entries(MAPPER_SOURCES).map(([path, content]) => ({ path: path.replace(/^\//, ''), content })),
+  ];
+
+  return files.map(file => ({ ...file, path: `${root}/${file.path}` }));
+};
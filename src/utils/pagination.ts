@@ -0,0 +1,262 @@
+import { apiService, APIResponse, PaginationConfig } from './apiService';
+import { ConnectorProfile, ResourceEndpoint } from '@/models/ConnectorProfile';
+import { appendQueryParams } from './filterTranslator';
+
+/**
+ * Translates SCIM `startIndex`/`count` paging into the upstream API's own
+ * paging style and works out an accurate total.
+ */
+
+export interface PageRequest {
+  // 1-based index of the first result, as in SCIM
+  startIndex: number;
+  // Maximum number of results; undefined means all of them
+  count?: number;
+}
+
+export interface UpstreamPage {
+  items: unknown[];
+  totalResults: number;
+  // Set instead of items when the endpoint returned a single resource
+  resource?: unknown;
+  // Number of upstream requests it took
+  requests: number;
+}
+
+// Safety net against upstream APIs that never stop returning a next page
+export const MAX_UPSTREAM_PAGES = 100;
+
+// Page size used to walk APIs that have no total and no explicit count was asked for
+const DEFAULT_WALK_PAGE_SIZE = 100;
+
+// Common total properties, tried when no totalPath is configured
+const TOTAL_CANDIDATES = ['total', 'totalResults', 'totalCount', 'total_count', 'count'];
+
+const readPath = (data: unknown, path: string): unknown => {
+  return path.split('.').reduce((value, key) => (value == null ? undefined : value[key]), data);
+};
+
+/**
+ * Pull the item array out of a list response: the body itself, or the
+ * profile's envelope key. Returns null for a single resource; an envelope key
+ * that holds something other than an array is an error rather than a guess.
+ */
+export const extractItems = (data: unknown, listEnvelopeKey?: string): unknown[] | null => {
+  if (Array.isArray(data)) {
+    return data;
+  }
+  if (!data || typeof data !== 'object') {
+    throw new Error('The upstream response is neither a list nor a single record');
+  }
+  if (!listEnvelopeKey) {
+    return null;
+  }
+  const items = readPath(data, listEnvelopeKey);
+  if (items === undefined) {
+    return null;
+  }
+  if (!Array.isArray(items)) {
+    throw new Error(`Expected the list envelope key "${listEnvelopeKey}" to hold an array of records`);
+  }
+  return items;
+};
+
+/**
+ * Read the total number of items from the body or headers, if the API reports it
+ */
+export const extractTotal = (response: APIResponse, pagination?: PaginationConfig): number | undefined => {
+  const toCount = (value: unknown) => {
+    const count = Number(value);
+    return value !== '' && value != null && Number.isInteger(count) && count >= 0 ? count : undefined;
+  };
+
+  if (pagination?.totalHeader) {
+    return toCount(response.headers[pagination.totalHeader.toLowerCase()]);
+  }
+  if (pagination?.totalPath) {
+    return toCount(readPath(response.data, pagination.totalPath));
+  }
+  if (response.data && !Array.isArray(response.data) && typeof response.data === 'object') {
+    for (const key of TOTAL_CANDIDATES) {
+      const total = toCount(response.data[key]);
+      if (total !== undefined) {
+        return total;
+      }
+    }
+  }
+  return toCount(response.headers['x-total-count']);
+};
+
+/**
+ * Find the `rel="next"` target in an RFC 8288 Link header
+ */
+export const parseNextLink = (header?: string): string | undefined => {
+  if (!header) {
+    return undefined;
+  }
+  for (const part of header.split(',')) {
+    const match = part.match(/<([^>]+)>\s*;(.*)/);
+    if (match && /rel\s*=\s*"?([^"]*\s)?next(\s[^"]*)?"?/i.test(match[2])) {
+      return match[1].trim();
+    }
+  }
+  return undefined;
+};
+
+// Next-page links are resolved against the API's base URL like a browser would,
+// so `/v1/users?cursor=x` does not pick up the base path a second time
+const resolveNextLink = (link: string | undefined, applicationId?: string): string | undefined => {
+  const baseUrl = apiService.getConfig(applicationId)?.baseUrl;
+  return link && baseUrl ? new URL(link, baseUrl).toString() : link;
+};
+
+// Where to go after a cursor or link page: a URL to follow, or nothing when done
+const findNextEndpoint = (
+  response: APIResponse,
+  endpoint: string,
+  pagination: PaginationConfig,
+  applicationId?: string
+): string | undefined => {
+  if (pagination.style === 'linkHeader') {
+    return resolveNextLink(parseNextLink(response.headers['link']), applicationId);
+  }
+
+  const next = pagination.nextPath ? readPath(response.data, pagination.nextPath) : undefined;
+  if (next === undefined || next === null || next === '') {
+    return undefined;
+  }
+  // A next-page URL is followed as-is; anything else is a cursor value
+  if (typeof next === 'string' && (/^https?:\/\//i.test(next) || next.startsWith('/'))) {
+    return resolveNextLink(next, applicationId);
+  }
+  return appendQueryParams(endpoint, { [pagination.cursorParam || 'cursor']: String(next) });
+};
+
+// Upstream pages as a sequence, starting at the page containing `offset`
+async function* walkPages(
+  endpoint: string,
+  offset: number,
+  pageSize: number,
+  profile: ConnectorProfile,
+  applicationId?: string
+): AsyncGenerator<{ items: unknown[]; total?: number; position: number; resource?: unknown }> {
+  const { pagination, listEnvelopeKey } = profile;
+  const sizeParams = (size: number): Record<string, string> =>
+    pagination.limitParam ? { [pagination.limitParam]: String(size) } : {};
+
+  if (pagination.style === 'offset' || pagination.style === 'page') {
+    const firstPage = pagination.firstPage ?? 1;
+    let position = pagination.style === 'page' ? Math.floor(offset / pageSize) * pageSize : offset;
+
+    for (let request = 0; request < MAX_UPSTREAM_PAGES; request++) {
+      const query = pagination.style === 'offset'
+        ? { [pagination.offsetParam || 'offset']: String(position), ...sizeParams(pageSize) }
+        : { [pagination.pageParam || 'page']: String(firstPage + position / pageSize), ...sizeParams(pageSize) };
+      const response = await apiService.request(appendQueryParams(endpoint, query), { method: 'GET' }, applicationId);
+      const items = extractItems(response.data, listEnvelopeKey);
+      if (!items) {
+        yield { items: [], position, resource: response.data };
+        return;
+      }
+
+      yield { items, total: extractTotal(response, pagination), position };
+
+      // A short page is the last one
+      if (items.length < pageSize) {
+        return;
+      }
+      position += items.length;
+    }
+    return;
+  }
+
+  // Cursor and link styles can only be walked from the start
+  const firstEndpoint = appendQueryParams(endpoint, sizeParams(pageSize));
+  let nextEndpoint: string | undefined = firstEndpoint;
+  let position = 0;
+
+  for (let request = 0; request < MAX_UPSTREAM_PAGES && nextEndpoint; request++) {
+    const response = await apiService.request(nextEndpoint, { method: 'GET' }, applicationId);
+    const items = extractItems(response.data, listEnvelopeKey);
+    if (!items) {
+      yield { items: [], position, resource: response.data };
+      return;
+    }
+
+    yield { items, total: extractTotal(response, pagination), position };
+
+    if (items.length === 0) {
+      return;
+    }
+    position += items.length;
+    nextEndpoint = findNextEndpoint(response, firstEndpoint, pagination, applicationId);
+  }
+}
+
+/**
+ * Fetch the SCIM page `startIndex`/`count` from the upstream API, using as few
+ * requests as its paging style allows. When the API does not report a total,
+ * the remaining pages are walked to count it. `resource` overrides the
+ * profile's list envelope for resources other than users.
+ */
+export const fetchUpstreamPage = async (
+  endpoint: string,
+  page: PageRequest,
+  applicationId?: string,
+  resource?: ResourceEndpoint
+): Promise<UpstreamPage> => {
+  const connectorProfile = apiService.getConnectorProfile(applicationId);
+  const profile = resource ? { ...connectorProfile, listEnvelopeKey: resource.listEnvelopeKey } : connectorProfile;
+  const { pagination } = profile;
+  const offset = Math.max(1, page.startIndex) - 1;
+  const end = page.count === undefined ? Infinity : offset + Math.max(0, page.count);
+
+  // Without upstream paging everything comes back at once and is sliced here
+  if (!pagination || pagination.style === 'none') {
+    const response = await apiService.request(endpoint, { method: 'GET' }, applicationId);
+    const items = extractItems(response.data, profile.listEnvelopeKey);
+    if (!items) {
+      return { items: [], totalResults: 1, resource: response.data, requests: 1 };
+    }
+    return { items: items.slice(offset, end), totalResults: extractTotal(response) ?? items.length, requests: 1 };
+  }
+
+  const requestedSize = page.count ? page.count : DEFAULT_WALK_PAGE_SIZE;
+  const pageSize = Math.min(requestedSize, pagination.maxPageSize || requestedSize);
+
+  const items: unknown[] = [];
+  let totalResults: number | undefined;
+  let seen = 0;
+  let requests = 0;
+
+  for await (const upstream of walkPages(endpoint, offset, pageSize, profile, applicationId)) {
+    requests++;
+    if (upstream.resource !== undefined) {
+      return { items: [], totalResults: 1, resource: upstream.resource, requests };
+    }
+    totalResults = totalResults ?? upstream.total;
+
+    upstream.items.forEach((item, i) => {
+      const position = upstream.position + i;
+      if (position >= offset && position < end) {
+        items.push(item);
+      }
+    });
+    seen = upstream.position + upstream.items.length;
+
+    // Stop once the page is complete and the total is known
+    if (seen >= end && totalResults !== undefined) {
+      break;
+    }
+  }
+
+  return { items, totalResults: totalResults ?? Math.max(seen, items.length), requests };
+};
+
+/**
+ * Fetch every item from the upstream API, following its paging style
+ */
+export const fetchAllUpstream = async (endpoint: string, applicationId?: string, resource?: ResourceEndpoint): Promise<unknown[]> => {
+  const page = await fetchUpstreamPage(endpoint, { startIndex: 1 }, applicationId, resource);
+  return page.items;
+};
@@ -0,0 +1,190 @@
+import { ScimCapabilities } from '@/models/ApplicationConfig';
+import { ScimError } from './scimError';
+import { SCIM_BASE_PATH } from './scimService';
+import type { ScimHttpRequest, ScimHttpResponse } from './scimServer';
+
+/**
+ * SCIM Bulk (RFC 7644 §3.7): runs the operations of a BulkRequest in order,
+ * resolving `bulkId:` references to resources created by earlier operations,
+ * and reports a status for each of them.
+ */
+
+export const BULK_REQUEST_SCHEMA = 'urn:ietf:params:scim:api:messages:2.0:BulkRequest';
+export const BULK_RESPONSE_SCHEMA = 'urn:ietf:params:scim:api:messages:2.0:BulkResponse';
+
+export type BulkMethod = 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export const BULK_METHODS: BulkMethod[] = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+export interface BulkOperation {
+  method: BulkMethod;
+  // Relative to the SCIM base path, e.g. `/Users` or `/Groups/bulkId:eng`
+  path: string;
+  bulkId?: string;
+  version?: string;
+  data?: unknown;
+}
+
+export interface BulkRequest {
+  // Errors after which the remaining operations are skipped; all run when unset
+  failOnErrors?: number;
+  operations: BulkOperation[];
+}
+
+export interface BulkOperationResult {
+  method: string;
+  bulkId?: string;
+  version?: string;
+  location?: string;
+  status: string;
+  // Error envelope of failed operations
+  response?: unknown;
+}
+
+export interface BulkResponse {
+  schemas: string[];
+  Operations: BulkOperationResult[];
+}
+
+const BULK_ID_PREFIX = 'bulkId:';
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+};
+
+/**
+ * Check a BulkRequest body against the declared bulk limits
+ */
+export const parseBulkRequest = (body: unknown, limits: ScimCapabilities['bulk']): BulkRequest => {
+  if (!isObject(body)) {
+    throw new ScimError(400, 'Bulk requests need a BulkRequest object as body', 'invalidSyntax');
+  }
+  const schemas = Array.isArray(body.schemas) ? body.schemas : [];
+  if (!schemas.includes(BULK_REQUEST_SCHEMA)) {
+    throw new ScimError(400, `Bulk requests must declare the ${BULK_REQUEST_SCHEMA} schema`, 'invalidSyntax');
+  }
+  if (!Array.isArray(body.Operations) || body.Operations.length === 0) {
+    throw new ScimError(400, 'Bulk requests need at least one operation in Operations', 'invalidSyntax');
+  }
+  if (body.Operations.some(operation => !isObject(operation))) {
+    throw new ScimError(400, 'Every bulk operation must be an object', 'invalidSyntax');
+  }
+  if (body.failOnErrors !== undefined && (!Number.isInteger(body.failOnErrors) || (body.failOnErrors as number) < 1)) {
+    throw new ScimError(400, 'failOnErrors must be a positive integer', 'invalidValue');
+  }
+  if (limits.maxOperations > 0 && body.Operations.length > limits.maxOperations) {
+    throw new ScimError(413, `The maximum number of operations is ${limits.maxOperations}; the request has ${body.Operations.length}`);
+  }
+  const size = new TextEncoder().encode(JSON.stringify(body)).length;
+  if (limits.maxPayloadSize > 0 && size > limits.maxPayloadSize) {
+    throw new ScimError(413, `The maximum payload size is ${limits.maxPayloadSize} bytes; the request has ${size}`);
+  }
+
+  return {
+    ...(body.failOnErrors !== undefined && { failOnErrors: body.failOnErrors as number }),
+    operations: body.Operations as BulkOperation[]
+  };
+};
+
+const resolveBulkId = (reference: string, createdIds: Map<string, string>): string => {
+  const bulkId = reference.slice(BULK_ID_PREFIX.length);
+  const id = createdIds.get(bulkId);
+  if (id === undefined) {
+    throw new ScimError(409, `bulkId "${bulkId}" does not refer to a resource created earlier in this request`, 'invalidValue');
+  }
+  return id;
+};
+
+// Replace `bulkId:` references in operation data, e.g. the member values of a group
+const resolveReferences = (value: unknown, createdIds: Map<string, string>): unknown => {
+  if (typeof value === 'string') {
+    return value.startsWith(BULK_ID_PREFIX) ? resolveBulkId(value, createdIds) : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => resolveReferences(item, createdIds));
+  }
+  if (isObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, resolveReferences(item, createdIds)]));
+  }
+  return value;
+};
+
+const resolvePath = (path: string, createdIds: Map<string, string>): string => {
+  return path
+    .split('/')
+    .map(segment => segment.startsWith(BULK_ID_PREFIX) ? encodeURIComponent(resolveBulkId(segment, createdIds)) : segment)
+    .join('/');
+};
+
+const runOperation = async (
+  operation: BulkOperation,
+  createdIds: Map<string, string>,
+  execute: (request: ScimHttpRequest) => Promise<ScimHttpResponse>
+): Promise<BulkOperationResult> => {
+  const result: Omit<BulkOperationResult, 'status'> = {
+    method: String(operation.method ?? ''),
+    ...(operation.bulkId !== undefined && { bulkId: operation.bulkId }),
+    ...(operation.version !== undefined && { version: operation.version })
+  };
+
+  try {
+    const method = result.method.toUpperCase() as BulkMethod;
+    if (!BULK_METHODS.includes(method)) {
+      throw new ScimError(400, `Unsupported bulk method "${result.method}"`, 'invalidSyntax');
+    }
+    if (typeof operation.path !== 'string' || !operation.path.startsWith('/')) {
+      throw new ScimError(400, 'Bulk operations need a path such as /Users', 'invalidPath');
+    }
+    if (/^\/bulk(\/|$)/i.test(operation.path)) {
+      throw new ScimError(400, 'Bulk requests cannot be nested', 'invalidPath');
+    }
+    if (method === 'POST' && !operation.bulkId) {
+      throw new ScimError(400, 'POST operations need a bulkId', 'invalidSyntax');
+    }
+
+    const path = resolvePath(operation.path, createdIds);
+    const response = await execute({ method, path, body: resolveReferences(operation.data, createdIds) });
+    if (response.status >= 400) {
+      return { ...result, status: String(response.status), response: response.body };
+    }
+
+    const id = isObject(response.body) ? response.body.id : undefined;
+    if (operation.bulkId && id !== undefined && id !== null) {
+      createdIds.set(operation.bulkId, String(id));
+    }
+    const location = response.headers?.Location ?? (method === 'POST' ? undefined : `${SCIM_BASE_PATH}${path}`);
+    return { ...result, ...(location && { location }), status: String(response.status) };
+  } catch (error) {
+    const scimError = error instanceof ScimError
+      ? error
+      : new ScimError(500, error instanceof Error ? error.message : String(error));
+    return { ...result, status: String(scimError.status), response: scimError.toResponse() };
+  }
+};
+
+/**
+ * Run the operations of a BulkRequest in order. Each one is answered by
+ * `execute` exactly as a standalone request would be; a failed operation does
+ * not undo earlier ones.
+ */
+export const processBulkRequest = async (
+  request: BulkRequest,
+  execute: (request: ScimHttpRequest) => Promise<ScimHttpResponse>
+): Promise<BulkResponse> => {
+  const createdIds = new Map<string, string>();
+  const results: BulkOperationResult[] = [];
+  let errors = 0;
+
+  for (const operation of request.operations) {
+    if (request.failOnErrors !== undefined && errors >= request.failOnErrors) {
+      break;
+    }
+    const result = await runOperation(operation, createdIds, execute);
+    if (Number(result.status) >= 400) {
+      errors++;
+    }
+    results.push(result);
+  }
+
+  return { schemas: [BULK_RESPONSE_SCHEMA], Operations: results };
+};
@@ -0,0 +1,112 @@
+import type { AttributeType } from '@/models/SchemaExtension';
+
+/**
+ * Coercion of mapped values to SCIM attribute data types (RFC 7643 §2.3)
+ */
+
+// `error` is set when the value cannot be coerced
+export interface CoercionResult {
+  value?: unknown;
+  error?: string;
+}
+
+const TRUE_STRINGS = ['true', 'yes', 'y', '1', 'on'];
+const FALSE_STRINGS = ['false', 'no', 'n', '0', 'off'];
+
+const BASE64 = /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/;
+
+// Epoch numbers below this are taken as seconds rather than milliseconds
+const EPOCH_SECONDS_LIMIT = 1e11;
+
+const describe = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return 'an array';
+  }
+  return value === null ? 'null' : `${/^[aeiou]/.test(typeof value) ? 'an' : 'a'} ${typeof value}`;
+};
+
+const toNumber = (value: unknown): number | undefined => {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : undefined;
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    const number = Number(value.trim());
+    return Number.isFinite(number) ? number : undefined;
+  }
+  return undefined;
+};
+
+/**
+ * Convert a value to a SCIM data type, e.g. `"true"` to `true` for a boolean
+ * or `12345` to `"12345"` for a string
+ */
+export const coerceValue = (value: unknown, type: AttributeType): CoercionResult => {
+  switch (type) {
+    case 'string':
+      if (typeof value === 'string') {
+        return { value };
+      }
+      if (typeof value === 'number' || typeof value === 'boolean' || typeof value === 'bigint') {
+        return { value: String(value) };
+      }
+      return { error: `${describe(value)} cannot be converted to a string` };
+
+    case 'boolean': {
+      if (typeof value === 'boolean') {
+        return { value };
+      }
+      if (typeof value === 'string' || typeof value === 'number') {
+        const text = String(value).trim().toLowerCase();
+        if (TRUE_STRINGS.includes(text)) {
+          return { value: true };
+        }
+        if (FALSE_STRINGS.includes(text)) {
+          return { value: false };
+        }
+      }
+      return { error: `${JSON.stringify(value)} is not a boolean` };
+    }
+
+    case 'decimal': {
+      const number = toNumber(value);
+      return number === undefined
+        ? { error: `${JSON.stringify(value)} is not a number` }
+        : { value: number };
+    }
+
+    case 'integer': {
+      const number = toNumber(value);
+      if (number === undefined || !Number.isInteger(number)) {
+        return { error: `${JSON.stringify(value)} is not an integer` };
+      }
+      return { value: number };
+    }
+
+    case 'dateTime': {
+      let date: Date | undefined;
+      if (value instanceof Date) {
+        date = value;
+      } else if (typeof value === 'number') {
+        date = new Date(Math.abs(value) < EPOCH_SECONDS_LIMIT ? value * 1000 : value);
+      } else if (typeof value === 'string' && value.trim() !== '') {
+        date = new Date(value.trim());
+      }
+      if (!date || Number.isNaN(date.getTime())) {
+        return { error: `${JSON.stringify(value)} is not a date` };
+      }
+      return { value: date.toISOString() };
+    }
+
+    case 'reference':
+      if (typeof value !== 'string' || /\s/.test(value.trim()) || value.trim() === '') {
+        return { error: `${JSON.stringify(value)} is not a URI` };
+      }
+      return { value: value.trim() };
+
+    case 'binary':
+      if (typeof value !== 'string' || !BASE64.test(value.replace(/\s/g, ''))) {
+        return { error: `${typeof value === 'string' ? 'the string' : describe(value)} is not base64 encoded` };
+      }
+      return { value: value.replace(/\s/g, '') };
+  }
+};
@@ -0,0 +1,368 @@
+import { apiService, APIHistory } from './apiService';
+import { appendQueryParams } from './filterTranslator';
+import { SCIM_ERROR_SCHEMA, ScimErrorType } from './scimError';
+import { PATCH_OP_SCHEMA } from './scimPatch';
+import { handleScimRequest, ScimHttpRequest, ScimHttpResponse } from './scimServer';
+import { LIST_RESPONSE_SCHEMA, SCIM_BASE_PATH } from './scimService';
+import { getWriteSkipReason, ScimConfig, SCIM_SCHEMA_URNS, ScimUtils } from './scimUtils';
+import { getResourceEndpoint } from '@/models/ConnectorProfile';
+
+/**
+ * Scripted suite modelled on the checks identity providers run before they
+ * provision to a SCIM app (Okta's and Entra ID's validators). Every request
+ * goes through the same handler as the mock SCIM server and is recorded in the
+ * request history.
+ */
+
+export type ComplianceStatus = 'passed' | 'failed' | 'skipped';
+
+export interface ComplianceCheckResult {
+  id: string;
+  name: string;
+  status: ComplianceStatus;
+  // Why the check failed or was skipped
+  message?: string;
+  // SCIM requests the check made, as recorded in the history
+  exchanges: APIHistory[];
+  duration: number;
+}
+
+// State shared by the checks of one run
+interface ComplianceContext {
+  applicationId: string;
+  utils: ScimUtils;
+  send: (method: string, path: string, options?: { body?: unknown; query?: Record<string, string> }) => Promise<ScimHttpResponse>;
+  // Unique per run, so repeated runs do not collide upstream
+  userName: string;
+  userId?: string;
+  groupId?: string;
+}
+
+interface ComplianceCheck {
+  id: string;
+  name: string;
+  description: string;
+  // What an earlier check must have provided
+  requires?: 'user';
+  run: (context: ComplianceContext) => Promise<void>;
+}
+
+// Thrown when the facade answers, but not the way a SCIM client expects
+class ComplianceFailure extends Error {}
+
+// Skips a check whose prerequisites the upstream API does not offer
+class ComplianceSkip extends Error {}
+
+const expect = (condition: unknown, message: string): void => {
+  if (!condition) {
+    throw new ComplianceFailure(message);
+  }
+};
+
+const describeResponse = (response: ScimHttpResponse): string => {
+  const detail = (response.body as { detail?: unknown } | undefined)?.detail;
+  return typeof detail === 'string' ? `${response.status}: ${detail}` : String(response.status);
+};
+
+const expectStatus = (response: ScimHttpResponse, status: number): void => {
+  expect(response.status === status, `Expected status ${status}, got ${describeResponse(response)}`);
+};
+
+const expectError = (response: ScimHttpResponse, status: number, scimType?: ScimErrorType): void => {
+  expectStatus(response, status);
+  const body = response.body as { schemas?: unknown; scimType?: unknown } | undefined;
+  expect(Array.isArray(body?.schemas) && body.schemas.includes(SCIM_ERROR_SCHEMA), `The error body must declare ${SCIM_ERROR_SCHEMA}`);
+  if (scimType) {
+    expect(body.scimType === scimType, `Expected scimType "${scimType}", got ${body.scimType === undefined ? 'none' : `"${body.scimType}"`}`);
+  }
+};
+
+const asResource = (response: ScimHttpResponse): Record<string, unknown> => {
+  const body = response.body;
+  expect(body && typeof body === 'object' && !Array.isArray(body), 'The response body must be a SCIM resource');
+  return body as Record<string, unknown>;
+};
+
+interface ListBody {
+  totalResults: number;
+  Resources: Record<string, unknown>[];
+  startIndex?: number;
+  itemsPerPage?: number;
+}
+
+const expectList = (response: ScimHttpResponse): ListBody => {
+  expectStatus(response, 200);
+  const list = asResource(response);
+  expect(Array.isArray(list.schemas) && list.schemas.includes(LIST_RESPONSE_SCHEMA), `The response must declare ${LIST_RESPONSE_SCHEMA}`);
+  expect(typeof list.totalResults === 'number', 'totalResults must be a number');
+  expect(Array.isArray(list.Resources ?? []), 'Resources must be an array');
+  return { ...list, Resources: list.Resources ?? [] } as ListBody;
+};
+
+const sameText = (a: unknown, b: unknown) => String(a).toLowerCase() === String(b).toLowerCase();
+
+const COMPLIANCE_CHECKS: ComplianceCheck[] = [
+  {
+    id: 'create-user',
+    name: 'Create user',
+    description: 'POST /Users answers 201 with the new user and its id',
+    run: async context => {
+      const response = await context.send('POST', '/Users', {
+        body: {
+          schemas: [SCIM_SCHEMA_URNS.User],
+          userName: context.userName,
+          name: { givenName: 'Compliance', familyName: 'Check' },
+          emails: [{ value: context.userName, type: 'work', primary: true }],
+          active: true
+        }
+      });
+      expectStatus(response, 201);
+      const user = asResource(response);
+      expect(user.id !== undefined && user.id !== null && user.id !== '', 'The created user has no id');
+      context.userId = String(user.id);
+      expect(Array.isArray(user.schemas) && user.schemas.includes(SCIM_SCHEMA_URNS.User), `The user must declare ${SCIM_SCHEMA_URNS.User}`);
+      expect(sameText(user.userName, context.userName), `userName came back as "${user.userName}"`);
+    }
+  },
+  {
+    id: 'get-user',
+    name: 'Get user by id',
+    description: 'GET /Users/{id} returns the created user',
+    requires: 'user',
+    run: async context => {
+      const response = await context.send('GET', `/Users/${encodeURIComponent(context.userId)}`);
+      expectStatus(response, 200);
+      const user = asResource(response);
+      expect(String(user.id) === context.userId, `Expected id "${context.userId}", got "${user.id}"`);
+      expect(sameText(user.userName, context.userName), `userName came back as "${user.userName}"`);
+    }
+  },
+  {
+    id: 'filter-username',
+    name: 'Filter by userName',
+    description: 'GET /Users?filter=userName eq "…" finds exactly the created user',
+    requires: 'user',
+    run: async context => {
+      const response = await context.send('GET', '/Users', { query: { filter: `userName eq "${context.userName}"` } });
+      const list = expectList(response);
+      expect(list.totalResults === 1, `Expected 1 result, got ${list.totalResults}`);
+      expect(String(list.Resources[0]?.id) === context.userId, 'The filter did not return the created user');
+    }
+  },
+  {
+    id: 'replace-user',
+    name: 'Update user',
+    description: 'PUT /Users/{id} replaces the user and returns it',
+    requires: 'user',
+    run: async context => {
+      const response = await context.send('PUT', `/Users/${encodeURIComponent(context.userId)}`, {
+        body: {
+          schemas: [SCIM_SCHEMA_URNS.User],
+          id: context.userId,
+          userName: context.userName,
+          name: { givenName: 'Compliance', familyName: 'Updated' },
+          emails: [{ value: context.userName, type: 'work', primary: true }],
+          active: true
+        }
+      });
+      expectStatus(response, 200);
+      const user = asResource(response);
+      expect(String(user.id) === context.userId, `Expected id "${context.userId}", got "${user.id}"`);
+    }
+  },
+  {
+    id: 'deactivate-user',
+    name: 'Deactivate user with PATCH',
+    description: 'PATCH /Users/{id} replacing active with false, as Okta and Entra ID deprovision',
+    requires: 'user',
+    run: async context => {
+      const activeMapping = context.utils.getMappings('User').find(mapping => mapping.scimAttribute === 'active');
+      const readOnlyReason = activeMapping && getWriteSkipReason(activeMapping);
+      if (readOnlyReason) {
+        throw new ComplianceSkip(`active cannot be written upstream: ${readOnlyReason}`);
+      }
+      const response = await context.send('PATCH', `/Users/${encodeURIComponent(context.userId)}`, {
+        body: { schemas: [PATCH_OP_SCHEMA], Operations: [{ op: 'replace', value: { active: false } }] }
+      });
+      expectStatus(response, 200);
+      const user = asResource(response);
+      expect(user.active === false, user.active === undefined
+        ? 'active is not returned: map it to an upstream field'
+        : `active came back as ${JSON.stringify(user.active)}`);
+    }
+  },
+  {
+    id: 'list-paging',
+    name: 'List users with paging',
+    description: 'GET /Users?startIndex=1&count=1 returns one page of a ListResponse',
+    run: async context => {
+      const response = await context.send('GET', '/Users', { query: { startIndex: '1', count: '1' } });
+      const list = expectList(response);
+      expect(list.Resources.length <= 1, `count=1 returned ${list.Resources.length} resources`);
+      expect(list.startIndex === undefined || list.startIndex === 1, `startIndex came back as ${list.startIndex}`);
+      expect(list.itemsPerPage === undefined || list.itemsPerPage === list.Resources.length, 'itemsPerPage does not match the returned resources');
+      expect(list.totalResults >= list.Resources.length, 'totalResults is lower than the number of returned resources');
+    }
+  },
+  {
+    id: 'group-lifecycle',
+    name: 'Group lifecycle',
+    description: 'Create a group with the user as member, read it, rename it with PATCH and delete it',
+    requires: 'user',
+    run: async context => {
+      if (!getResourceEndpoint(apiService.getConnectorProfile(context.applicationId), 'Group')) {
+        throw new ComplianceSkip('The connector profile has no upstream path for groups');
+      }
+      const displayName = `Compliance ${context.userName}`;
+      const created = await context.send('POST', '/Groups', {
+        body: { schemas: [SCIM_SCHEMA_URNS.Group], displayName, members: [{ value: context.userId }] }
+      });
+      expectStatus(created, 201);
+      const group = asResource(created);
+      expect(group.id !== undefined && group.id !== null && group.id !== '', 'The created group has no id');
+      context.groupId = String(group.id);
+      const path = `/Groups/${encodeURIComponent(context.groupId)}`;
+
+      const fetched = await context.send('GET', path);
+      expectStatus(fetched, 200);
+      expect(sameText(asResource(fetched).displayName, displayName), `displayName came back as "${asResource(fetched).displayName}"`);
+
+      const patched = await context.send('PATCH', path, {
+        body: { schemas: [PATCH_OP_SCHEMA], Operations: [{ op: 'replace', path: 'displayName', value: `${displayName} renamed` }] }
+      });
+      expectStatus(patched, 200);
+
+      expectStatus(await context.send('DELETE', path), 204);
+      context.groupId = undefined;
+    }
+  },
+  {
+    id: 'missing-user',
+    name: 'Unknown user is 404',
+    description: 'GET /Users/{id} for an id that does not exist answers a 404 SCIM error',
+    run: async context => {
+      const response = await context.send('GET', `/Users/${encodeURIComponent(`missing-${context.userName}`)}`);
+      expectError(response, 404);
+    }
+  },
+  {
+    id: 'duplicate-user',
+    name: 'Duplicate userName is 409',
+    description: 'POST /Users with an existing userName answers 409 with scimType uniqueness',
+    requires: 'user',
+    run: async context => {
+      const response = await context.send('POST', '/Users', {
+        body: { schemas: [SCIM_SCHEMA_URNS.User], userName: context.userName, active: true }
+      });
+      // Remove the duplicate if the upstream accepted it
+      const duplicateId = response.status === 201 ? (response.body as { id?: unknown } | undefined)?.id : undefined;
+      if (duplicateId !== undefined && duplicateId !== null && duplicateId !== '') {
+        await context.send('DELETE', `/Users/${encodeURIComponent(String(duplicateId))}`);
+      }
+      expectError(response, 409, 'uniqueness');
+    }
+  },
+  {
+    id: 'invalid-filter',
+    name: 'Invalid filter is 400',
+    description: 'GET /Users with a malformed filter answers 400 with scimType invalidFilter',
+    run: async context => {
+      const response = await context.send('GET', '/Users', { query: { filter: 'userName eq' } });
+      expectError(response, 400, 'invalidFilter');
+    }
+  },
+  {
+    id: 'delete-user',
+    name: 'Delete user',
+    description: 'DELETE /Users/{id} answers 204 and the user is gone afterwards',
+    requires: 'user',
+    run: async context => {
+      const path = `/Users/${encodeURIComponent(context.userId)}`;
+      expectStatus(await context.send('DELETE', path), 204);
+      context.userId = undefined;
+      expectError(await context.send('GET', path), 404);
+    }
+  }
+];
+
+/**
+ * The checks of the suite, in the order they run
+ */
+export const getComplianceChecks = (): Pick<ComplianceCheck, 'id' | 'name' | 'description'>[] => {
+  return COMPLIANCE_CHECKS.map(({ id, name, description }) => ({ id, name, description }));
+};
+
+/**
+ * Run the suite against an application's SCIM facade, translating through the
+ * given configuration. Checks run in order and share the resources they
+ * create; `onResult` is called as each one finishes.
+ */
+export const runComplianceSuite = async (
+  applicationId: string,
+  config: ScimConfig,
+  onResult?: (result: ComplianceCheckResult) => void
+): Promise<ComplianceCheckResult[]> => {
+  const utils = new ScimUtils(config, false);
+  let exchanges: APIHistory[] = [];
+
+  const send: ComplianceContext['send'] = async (method, path, options = {}) => {
+    const request: ScimHttpRequest = { method, path, query: options.query, body: options.body };
+    const startTime = performance.now();
+    const response = await handleScimRequest(request, applicationId, utils);
+    const exchange: APIHistory = {
+      timestamp: Date.now(),
+      method,
+      endpoint: appendQueryParams(`${SCIM_BASE_PATH}${path}`, options.query || {}),
+      status: response.status,
+      duration: performance.now() - startTime,
+      success: response.status < 400,
+      requestData: options.body,
+      responseData: response.body,
+      responseHeaders: response.headers,
+      applicationId
+    };
+    apiService.addHistoryItem(exchange);
+    exchanges.push(exchange);
+    return response;
+  };
+
+  const context: ComplianceContext = { applicationId, utils, send, userName: `scim-compliance-${Date.now()}@example.com` };
+  const results: ComplianceCheckResult[] = [];
+
+  for (const check of COMPLIANCE_CHECKS) {
+    exchanges = [];
+    const startTime = performance.now();
+    let result: ComplianceCheckResult;
+
+    if (check.requires === 'user' && !context.userId) {
+      result = { id: check.id, name: check.name, status: 'skipped', message: 'Needs the user from "Create user"', exchanges, duration: 0 };
+    } else {
+      try {
+        await check.run(context);
+        result = { id: check.id, name: check.name, status: 'passed', exchanges, duration: performance.now() - startTime };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        result = {
+          id: check.id,
+          name: check.name,
+          status: error instanceof ComplianceSkip ? 'skipped' : 'failed',
+          // Anything but an assertion means the check itself broke
+          message: error instanceof ComplianceFailure || error instanceof ComplianceSkip ? message : `Check failed to run: ${message}`,
+          exchanges,
+          duration: performance.now() - startTime
+        };
+      }
+    }
+
+    results.push(result);
+    onResult?.(result);
+  }
+
+  // A failed check may leave its group behind
+  if (context.groupId) {
+    exchanges = [];
+    await send('DELETE', `/Groups/${encodeURIComponent(context.groupId)}`);
+  }
+
+  return results;
+};
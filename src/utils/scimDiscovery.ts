@@ -0,0 +1,254 @@
+import { AuthenticationScheme, MappingItem, ScimCapabilities } from '@/models/ApplicationConfig';
+import { findAttributeDefinition, SchemaAttribute, toSchemaAttribute } from '@/models/ScimSchemaCatalog';
+import { ENTERPRISE_USER_SCHEMA, isUrnPath, SCIM_SCHEMA_URNS, ScimResourceType, ScimUtils, scimUtils } from './scimUtils';
+import { splitAttributePath } from './scimFilter';
+import { buildListResponse, MAX_FILTER_RESULTS, ScimListResponse } from './scimService';
+
+/**
+ * Discovery documents served by the SCIM facade itself (RFC 7644 §4), built
+ * from the current configuration rather than fetched upstream. Each builder
+ * reads the shared scimUtils unless given another configured instance.
+ */
+
+export const SERVICE_PROVIDER_CONFIG_SCHEMA = 'urn:ietf:params:scim:schemas:core:2.0:ServiceProviderConfig';
+export const RESOURCE_TYPE_SCHEMA = 'urn:ietf:params:scim:schemas:core:2.0:ResourceType';
+export const SCHEMA_SCHEMA = 'urn:ietf:params:scim:schemas:core:2.0:Schema';
+
+// Discovery endpoints answered locally
+export const DISCOVERY_RESOURCES = ['ServiceProviderConfig', 'ResourceTypes', 'Schemas'] as const;
+export type DiscoveryResource = typeof DISCOVERY_RESOURCES[number];
+
+const RESOURCE_TYPE_INFO: Record<ScimResourceType, { endpoint: string; description: string }> = {
+  User: { endpoint: '/Users', description: 'User Account' },
+  Group: { endpoint: '/Groups', description: 'Group' }
+};
+
+// Names of well-known extension schemas; others are named after their last URN segment
+const EXTENSION_NAMES: Record<string, string> = {
+  [ENTERPRISE_USER_SCHEMA]: 'EnterpriseUser'
+};
+
+// The authentication schemes an IdP may be told about, keyed by type
+export const AUTHENTICATION_SCHEMES: Record<AuthenticationScheme['type'], AuthenticationScheme> = {
+  oauthbearertoken: {
+    type: 'oauthbearertoken',
+    name: 'OAuth Bearer Token',
+    description: 'Authentication scheme using the OAuth Bearer Token Standard',
+    specUri: 'https://www.rfc-editor.org/info/rfc6750'
+  },
+  httpbasic: {
+    type: 'httpbasic',
+    name: 'HTTP Basic',
+    description: 'Authentication scheme using the HTTP Basic Standard',
+    specUri: 'https://www.rfc-editor.org/info/rfc7617'
+  },
+  oauth2: {
+    type: 'oauth2',
+    name: 'OAuth 2.0',
+    description: 'Authentication scheme using OAuth 2.0 access tokens',
+    specUri: 'https://www.rfc-editor.org/info/rfc6749'
+  },
+  oauth: {
+    type: 'oauth',
+    name: 'OAuth 1.0',
+    description: 'Authentication scheme using OAuth 1.0 signatures',
+    specUri: 'https://www.rfc-editor.org/info/rfc5849'
+  },
+  httpdigest: {
+    type: 'httpdigest',
+    name: 'HTTP Digest',
+    description: 'Authentication scheme using HTTP Digest access authentication',
+    specUri: 'https://www.rfc-editor.org/info/rfc7616'
+  }
+};
+
+// What the facade itself supports, declared for applications that set nothing else
+export const DEFAULT_CAPABILITIES: ScimCapabilities = {
+  patch: true,
+  bulk: { supported: true, maxOperations: 100, maxPayloadSize: 1048576 },
+  filter: { supported: true, maxResults: MAX_FILTER_RESULTS },
+  sort: false,
+  etag: false,
+  changePassword: false,
+  authenticationSchemes: [{ ...AUTHENTICATION_SCHEMES.oauthbearertoken, primary: true }]
+};
+
+/**
+ * The declared capabilities, as a ServiceProviderConfig (RFC 7643 §5)
+ */
+export const buildServiceProviderConfig = (utils: ScimUtils = scimUtils) => {
+  const capabilities = utils.getConfig()?.capabilities || DEFAULT_CAPABILITIES;
+  return {
+    schemas: [SERVICE_PROVIDER_CONFIG_SCHEMA],
+    ...(capabilities.documentationUri && { documentationUri: capabilities.documentationUri }),
+    patch: { supported: capabilities.patch },
+    bulk: capabilities.bulk.supported ? capabilities.bulk : { supported: false, maxOperations: 0, maxPayloadSize: 0 },
+    filter: capabilities.filter.supported ? capabilities.filter : { supported: false, maxResults: 0 },
+    changePassword: { supported: capabilities.changePassword },
+    sort: { supported: capabilities.sort },
+    etag: { supported: capabilities.etag },
+    authenticationSchemes: capabilities.authenticationSchemes,
+    meta: { resourceType: 'ServiceProviderConfig', location: '/ServiceProviderConfig' }
+  };
+};
+
+/**
+ * Resource types with mappings, as a ListResponse of ResourceType documents (RFC 7643 §6)
+ */
+export const buildResourceTypes = (utils: ScimUtils = scimUtils): ScimListResponse => {
+  const resources = getMappedResourceTypes(utils).map(resourceType => {
+    const extensions = Object.keys(groupMappingsBySchema(resourceType, utils)).filter(urn => urn !== SCIM_SCHEMA_URNS[resourceType]);
+    return {
+      schemas: [RESOURCE_TYPE_SCHEMA],
+      id: resourceType,
+      name: resourceType,
+      endpoint: RESOURCE_TYPE_INFO[resourceType].endpoint,
+      description: RESOURCE_TYPE_INFO[resourceType].description,
+      schema: SCIM_SCHEMA_URNS[resourceType],
+      ...(extensions.length > 0 && {
+        schemaExtensions: extensions.map(schema => ({ schema, required: false }))
+      }),
+      meta: { resourceType: 'ResourceType', location: `/ResourceTypes/${resourceType}` }
+    };
+  });
+  return buildListResponse(resources, resources.length);
+};
+
+/**
+ * Schemas of the mapped attributes, as a ListResponse of Schema documents (RFC 7643 §7)
+ */
+export const buildSchemas = (utils: ScimUtils = scimUtils): ScimListResponse => {
+  const resources = getMappedResourceTypes(utils).flatMap(resourceType =>
+    Object.entries(groupMappingsBySchema(resourceType, utils)).map(([urn, mappings]) => {
+      const isCore = urn === SCIM_SCHEMA_URNS[resourceType];
+      // Declared extensions describe their attributes; others are inferred from the mappings
+      const declared = utils.getSchemaExtensions(resourceType).find(extension => extension.urn === urn);
+      return {
+        schemas: [SCHEMA_SCHEMA],
+        id: urn,
+        name: isCore ? resourceType : declared?.name || EXTENSION_NAMES[urn] || urn.substring(urn.lastIndexOf(':') + 1),
+        description: isCore ? RESOURCE_TYPE_INFO[resourceType].description : declared?.description || `${resourceType} extension`,
+        attributes: declared ? declared.attributes.map(toSchemaAttribute) : buildSchemaAttributes(mappings, urn, resourceType),
+        meta: { resourceType: 'Schema', location: `/Schemas/${urn}` }
+      };
+    })
+  );
+  return buildListResponse(resources, resources.length);
+};
+
+/**
+ * Answer a discovery endpoint
+ */
+export const getDiscoveryDocument = (resource: DiscoveryResource, utils: ScimUtils = scimUtils): unknown => {
+  switch (resource) {
+    case 'ServiceProviderConfig':
+      return buildServiceProviderConfig(utils);
+    case 'ResourceTypes':
+      return buildResourceTypes(utils);
+    case 'Schemas':
+      return buildSchemas(utils);
+  }
+};
+
+/**
+ * Every discovery document, keyed by endpoint name
+ */
+export const buildDiscoveryDocuments = (utils: ScimUtils = scimUtils): Record<DiscoveryResource, unknown> => ({
+  ServiceProviderConfig: buildServiceProviderConfig(utils),
+  ResourceTypes: buildResourceTypes(utils),
+  Schemas: buildSchemas(utils)
+});
+
+export const isDiscoveryResource = (resource: string): resource is DiscoveryResource => {
+  return (DISCOVERY_RESOURCES as readonly string[]).includes(resource);
+};
+
+// Users are always served; Groups once they have mappings
+const getMappedResourceTypes = (utils: ScimUtils): ScimResourceType[] => {
+  return utils.getMappings('Group').length > 0 ? ['User', 'Group'] : ['User'];
+};
+
+/**
+ * Split a resource type's mappings by the schema their attribute belongs to,
+ * with URN prefixes removed. The core schema always comes first, and declared
+ * extensions are listed even before anything is mapped to them.
+ */
+const groupMappingsBySchema = (resourceType: ScimResourceType, utils: ScimUtils): Record<string, MappingItem[]> => {
+  const core = SCIM_SCHEMA_URNS[resourceType];
+  const bySchema: Record<string, MappingItem[]> = { [core]: [] };
+  const declared = utils.getSchemaExtensions(resourceType).map(extension => extension.urn);
+  declared.forEach(urn => {
+    bySchema[urn] = [];
+  });
+
+  utils.getMappings(resourceType).forEach(mapping => {
+    if (!isUrnPath(mapping.scimAttribute)) {
+      bySchema[core].push(mapping);
+      return;
+    }
+    const { urn, names } = splitAttributePath(mapping.scimAttribute);
+    // URNs are case-insensitive; keep the spelling of the declaration
+    const schema = [core, ...declared].find(known => known.toLowerCase() === urn.toLowerCase()) || urn;
+    bySchema[schema] = [...(bySchema[schema] || []), { ...mapping, scimAttribute: names.join('.') }];
+  });
+
+  return bySchema;
+};
+
+// Metadata comes from the attribute catalog; attributes it does not know are described as strings
+const createAttribute = (name: string, mapping: MappingItem, definition?: SchemaAttribute): SchemaAttribute => ({
+  name,
+  type: definition?.type ?? 'string',
+  multiValued: definition?.multiValued ?? false,
+  ...(definition?.description && { description: definition.description }),
+  required: false,
+  ...(definition?.canonicalValues && { canonicalValues: definition.canonicalValues }),
+  caseExact: definition?.caseExact ?? false,
+  // Outbound-only mappings cannot be written whatever the schema allows
+  mutability: mapping.direction === 'outbound' ? 'readOnly' : definition?.mutability ?? 'readWrite',
+  returned: definition?.returned ?? 'default',
+  uniqueness: definition?.uniqueness ?? 'none',
+  ...(definition?.referenceTypes && { referenceTypes: definition.referenceTypes })
+});
+
+/**
+ * Describe the attributes the mappings of one schema produce. Paths like
+ * `emails[0].value` become a multi-valued complex attribute with a `value`
+ * sub-attribute.
+ */
+const buildSchemaAttributes = (mappings: MappingItem[], urn: string, resourceType: ScimResourceType): SchemaAttribute[] => {
+  const attributes: SchemaAttribute[] = [];
+
+  mappings.forEach(mapping => {
+    const [head, ...rest] = mapping.scimAttribute.split('.');
+    const name = head.replace(/\[\d*\]$/, '');
+    if (!name) {
+      return;
+    }
+    const multiValued = head !== name || !!mapping.multiValued;
+    const subNames = mapping.multiValued
+      ? mapping.multiValued.subMappings.map(sub => sub.subAttribute).filter(Boolean)
+      : rest.slice(0, 1);
+
+    let attribute = attributes.find(item => item.name === name);
+    if (!attribute) {
+      attribute = createAttribute(name, mapping, findAttributeDefinition(`${urn}:${name}`, resourceType));
+      attributes.push(attribute);
+    }
+    attribute.multiValued = attribute.multiValued || multiValued;
+    attribute.required = attribute.required || (mapping.isRequired && subNames.length === 0);
+
+    if (subNames.length > 0) {
+      attribute.type = 'complex';
+      attribute.subAttributes = attribute.subAttributes || [];
+      subNames.forEach(subName => {
+        if (!attribute.subAttributes.some(sub => sub.name === subName)) {
+          const definition = findAttributeDefinition(`${urn}:${name}.${subName}`, resourceType);
+          attribute.subAttributes.push({ ...createAttribute(subName, mapping, definition), required: mapping.isRequired });
+        }
+      });
+    }
+  });
+
+  return attributes;
+};
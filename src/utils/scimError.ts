@@ -0,0 +1,46 @@
+export const SCIM_ERROR_SCHEMA = 'urn:ietf:params:scim:api:messages:2.0:Error';
+
+// scimType values defined by RFC 7644 §3.12
+export type ScimErrorType =
+  | 'invalidFilter'
+  | 'tooMany'
+  | 'uniqueness'
+  | 'mutability'
+  | 'invalidSyntax'
+  | 'invalidPath'
+  | 'noTarget'
+  | 'invalidValue'
+  | 'invalidVers'
+  | 'sensitive';
+
+export interface ScimErrorResponse {
+  schemas: string[];
+  status: string;
+  scimType?: ScimErrorType;
+  detail: string;
+}
+
+/**
+ * Error carrying an HTTP status and SCIM error type, serializable to the
+ * SCIM error envelope
+ */
+export class ScimError extends Error {
+  status: number;
+  scimType?: ScimErrorType;
+
+  constructor(status: number, detail: string, scimType?: ScimErrorType) {
+    super(detail);
+    this.name = 'ScimError';
+    this.status = status;
+    this.scimType = scimType;
+  }
+
+  toResponse(): ScimErrorResponse {
+    return {
+      schemas: [SCIM_ERROR_SCHEMA],
+      status: String(this.status),
+      ...(this.scimType ? { scimType: this.scimType } : {}),
+      detail: this.message
+    };
+  }
+}
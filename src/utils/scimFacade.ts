@@ -0,0 +1,90 @@
+import { handleScimRequest, ScimHttpRequest, ScimHttpResponse } from './scimServer';
+import { ScimError } from './scimError';
+import { ScimConfig, ScimUtils } from './scimUtils';
+
+/**
+ * Page side of the mock SCIM server. The service worker at `/scim-sw.js`
+ * intercepts requests under SCIM_BASE_PATH and relays them here, where they
+ * are answered for the application the facade was started for, with that
+ * application's own mappings.
+ */
+
+const SERVICE_WORKER_URL = '/scim-sw.js';
+
+let servedApplicationId: string | null = null;
+let servedUtils: ScimUtils | null = null;
+let listening = false;
+
+export const isScimFacadeSupported = (): boolean => typeof navigator !== 'undefined' && 'serviceWorker' in navigator;
+
+/**
+ * ID of the application currently answering SCIM requests, if any
+ */
+export const getServedApplicationId = (): string | null => servedApplicationId;
+
+const handleMessage = async (event: MessageEvent) => {
+  const port = event.ports[0];
+  if (event.data?.type !== 'scim-request' || !port) {
+    return;
+  }
+
+  const response: ScimHttpResponse = servedApplicationId && servedUtils
+    ? await handleScimRequest(event.data.request as ScimHttpRequest, servedApplicationId, servedUtils)
+    : { status: 503, body: new ScimError(503, 'The mock SCIM server is stopped').toResponse() };
+  port.postMessage(response);
+};
+
+// The worker controlling this page, waiting for the first install to take over
+const getActiveWorker = async (): Promise<ServiceWorker> => {
+  const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  await navigator.serviceWorker.ready;
+  if (!navigator.serviceWorker.controller) {
+    await new Promise<void>(resolve => {
+      navigator.serviceWorker.addEventListener('controllerchange', () => resolve(), { once: true });
+    });
+  }
+  const worker = registration.active || navigator.serviceWorker.controller;
+  if (!worker) {
+    throw new Error('The SCIM service worker did not activate');
+  }
+  return worker;
+};
+
+/**
+ * Serve SCIM requests from this window for an application. Starting the
+ * facade for another application takes over from the previous one.
+ */
+export const startScimFacade = async (applicationId: string, config: ScimConfig): Promise<void> => {
+  if (!isScimFacadeSupported()) {
+    throw new Error('This browser does not support service workers');
+  }
+
+  const worker = await getActiveWorker();
+  if (!listening) {
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+    listening = true;
+  }
+  servedApplicationId = applicationId;
+  servedUtils = new ScimUtils(config, false);
+  worker.postMessage({ type: 'scim-facade-start' });
+};
+
+/**
+ * Follow changes to the served application's mappings and capabilities
+ */
+export const updateScimFacadeConfig = (applicationId: string, config: ScimConfig): void => {
+  if (servedApplicationId === applicationId && servedUtils) {
+    servedUtils.setConfig(config, false);
+  }
+};
+
+/**
+ * Stop answering SCIM requests; the worker stays registered and replies 503
+ */
+export const stopScimFacade = (): void => {
+  servedApplicationId = null;
+  servedUtils = null;
+  if (isScimFacadeSupported()) {
+    navigator.serviceWorker.controller?.postMessage({ type: 'scim-facade-stop' });
+  }
+};
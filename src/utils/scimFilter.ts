@@ -0,0 +1,454 @@
+import { ScimError } from './scimError';
+
+/**
+ * SCIM 2.0 filter support (RFC 7644 §3.4.2.2): tokenizer, parser producing an
+ * AST, and an in-memory evaluator that runs against SCIM resources.
+ */
+
+export type CompareOperator = 'eq' | 'ne' | 'co' | 'sw' | 'ew' | 'gt' | 'ge' | 'lt' | 'le' | 'pr';
+
+export type FilterValue = string | number | boolean | null;
+
+export type FilterNode =
+  | { type: 'compare'; attrPath: string; operator: CompareOperator; value?: FilterValue }
+  | { type: 'logical'; operator: 'and' | 'or'; left: FilterNode; right: FilterNode }
+  | { type: 'not'; filter: FilterNode }
+  | { type: 'valuePath'; attrPath: string; filter: FilterNode };
+
+type TokenType = 'attrPath' | 'subAttr' | 'string' | 'number' | 'word' | '(' | ')' | '[' | ']' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+const COMPARE_OPERATORS: CompareOperator[] = ['eq', 'ne', 'co', 'sw', 'ew', 'gt', 'ge', 'lt', 'le', 'pr'];
+
+const ORDERING_OPERATORS: CompareOperator[] = ['gt', 'ge', 'lt', 'le'];
+
+const invalidFilter = (message: string, position?: number) => {
+  return new ScimError(
+    400,
+    position !== undefined ? `${message} at position ${position + 1}` : message,
+    'invalidFilter'
+  );
+};
+
+const tokenize = (filter: string): Token[] => {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  while (pos < filter.length) {
+    const char = filter[pos];
+    const rest = filter.slice(pos);
+
+    if (/\s/.test(char)) {
+      pos++;
+      continue;
+    }
+
+    if ('()[]'.includes(char)) {
+      tokens.push({ type: char as TokenType, value: char, position: pos });
+      pos++;
+      continue;
+    }
+
+    if (char === '"') {
+      const match = /^"(?:[^"\\]|\\.)*"/.exec(rest);
+      if (!match) {
+        throw invalidFilter('Unterminated string', pos);
+      }
+      let value: string;
+      try {
+        value = JSON.parse(match[0]);
+      } catch {
+        throw invalidFilter('Invalid string escape', pos);
+      }
+      tokens.push({ type: 'string', value, position: pos });
+      pos += match[0].length;
+      continue;
+    }
+
+    const number = /^-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/.exec(rest);
+    if (number) {
+      tokens.push({ type: 'number', value: number[0], position: pos });
+      pos += number[0].length;
+      continue;
+    }
+
+    // Sub-attribute following a value path, e.g. the `.value` in `emails[type eq "work"].value`
+    const subAttr = /^\.[A-Za-z$][\w$-]*/.exec(rest);
+    if (subAttr && tokens.length > 0 && tokens[tokens.length - 1].type === ']') {
+      tokens.push({ type: 'subAttr', value: subAttr[0].substring(1), position: pos });
+      pos += subAttr[0].length;
+      continue;
+    }
+
+    // Attribute paths may be URN-qualified and so contain ':' and '.'
+    const word = /^[A-Za-z$][\w$:.-]*/.exec(rest);
+    if (word) {
+      const lower = word[0].toLowerCase();
+      const isKeyword = ['and', 'or', 'not', 'true', 'false', 'null'].includes(lower) ||
+        (COMPARE_OPERATORS as string[]).includes(lower);
+      tokens.push({ type: isKeyword ? 'word' : 'attrPath', value: word[0], position: pos });
+      pos += word[0].length;
+      continue;
+    }
+
+    throw invalidFilter(`Unexpected character "${char}"`, pos);
+  }
+
+  tokens.push({ type: 'eof', value: '', position: filter.length });
+  return tokens;
+};
+
+class FilterParser {
+  private tokens: Token[];
+  private index = 0;
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+
+  peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  isWord(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'word' && token.value.toLowerCase() === value;
+  }
+
+  expect(type: TokenType, description: string): Token {
+    const token = this.peek();
+    if (token.type !== type) {
+      const found = token.type === 'eof' ? 'end of filter' : `"${token.value}"`;
+      throw invalidFilter(`Expected ${description} but found ${found}`, token.position);
+    }
+    return this.next();
+  }
+
+  parseFilter(): FilterNode {
+    let left = this.parseAnd();
+    while (this.isWord('or')) {
+      this.next();
+      left = { type: 'logical', operator: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): FilterNode {
+    let left = this.parseUnary();
+    while (this.isWord('and')) {
+      this.next();
+      left = { type: 'logical', operator: 'and', left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): FilterNode {
+    if (this.isWord('not')) {
+      this.next();
+      this.expect('(', '"(" after "not"');
+      const filter = this.parseFilter();
+      this.expect(')', '")"');
+      return { type: 'not', filter };
+    }
+
+    if (this.peek().type === '(') {
+      this.next();
+      const filter = this.parseFilter();
+      this.expect(')', '")"');
+      return filter;
+    }
+
+    return this.parseAttributeExpression();
+  }
+
+  private parseAttributeExpression(): FilterNode {
+    const attr = this.expect('attrPath', 'an attribute path');
+
+    if (this.peek().type === '[') {
+      this.next();
+      const filter = this.parseFilter();
+      this.expect(']', '"]"');
+      if (this.peek().type === 'subAttr') {
+        const token = this.peek();
+        throw invalidFilter('Sub-attributes after a value filter are only allowed in PATCH paths', token.position);
+      }
+      return { type: 'valuePath', attrPath: attr.value, filter };
+    }
+
+    const operatorToken = this.next();
+    const operator = operatorToken.value.toLowerCase() as CompareOperator;
+    if (operatorToken.type !== 'word' || !COMPARE_OPERATORS.includes(operator)) {
+      const found = operatorToken.type === 'eof' ? 'end of filter' : `"${operatorToken.value}"`;
+      throw invalidFilter(`Expected a comparison operator but found ${found}`, operatorToken.position);
+    }
+
+    if (operator === 'pr') {
+      return { type: 'compare', attrPath: attr.value, operator };
+    }
+
+    const valueToken = this.next();
+    const value = this.parseValue(valueToken);
+
+    if (ORDERING_OPERATORS.includes(operator) && (typeof value === 'boolean' || value === null)) {
+      throw invalidFilter(`Operator "${operator}" cannot be used with ${String(value)}`, valueToken.position);
+    }
+
+    return { type: 'compare', attrPath: attr.value, operator, value };
+  }
+
+  private parseValue(token: Token): FilterValue {
+    if (token.type === 'string') return token.value;
+    if (token.type === 'number') return Number(token.value);
+    if (token.type === 'word') {
+      const lower = token.value.toLowerCase();
+      if (lower === 'true') return true;
+      if (lower === 'false') return false;
+      if (lower === 'null') return null;
+    }
+    const found = token.type === 'eof' ? 'end of filter' : `"${token.value}"`;
+    throw invalidFilter(`Expected a comparison value but found ${found}`, token.position);
+  }
+}
+
+/**
+ * Parse a SCIM filter expression, throwing a ScimError with scimType `invalidFilter`
+ */
+export const parseFilter = (filter: string): FilterNode => {
+  if (!filter || !filter.trim()) {
+    throw invalidFilter('Filter is empty');
+  }
+
+  const parser = new FilterParser(tokenize(filter));
+  const node = parser.parseFilter();
+  const token = parser.peek();
+  if (token.type !== 'eof') {
+    throw invalidFilter(`Unexpected "${token.value}"`, token.position);
+  }
+  return node;
+};
+
+/**
+ * Check a filter for syntax errors, returning the error message if any
+ */
+export const validateFilter = (filter: string): string | null => {
+  try {
+    parseFilter(filter);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+};
+
+/**
+ * Serialize a filter AST back into SCIM filter syntax
+ */
+export const formatFilter = (node: FilterNode): string => {
+  switch (node.type) {
+    case 'compare':
+      return node.operator === 'pr'
+        ? `${node.attrPath} pr`
+        : `${node.attrPath} ${node.operator} ${JSON.stringify(node.value)}`;
+    case 'logical': {
+      // Parenthesize `or` inside `and` to keep precedence intact
+      const wrap = (child: FilterNode) =>
+        node.operator === 'and' && child.type === 'logical' && child.operator === 'or'
+          ? `(${formatFilter(child)})`
+          : formatFilter(child);
+      return `${wrap(node.left)} ${node.operator} ${wrap(node.right)}`;
+    }
+    case 'not':
+      return `not (${formatFilter(node.filter)})`;
+    case 'valuePath':
+      return `${node.attrPath}[${formatFilter(node.filter)}]`;
+  }
+};
+
+const findKey = (object: Record<string, unknown>, name: string): string | undefined => {
+  const lower = name.toLowerCase();
+  return Object.keys(object).find(key => key.toLowerCase() === lower);
+};
+
+/**
+ * Split an attribute path into an optional schema URN and the attribute names below it
+ */
+export const splitAttributePath = (attrPath: string): { urn?: string; names: string[] } => {
+  if (attrPath.toLowerCase().startsWith('urn:')) {
+    const separator = attrPath.lastIndexOf(':');
+    const urn = attrPath.substring(0, separator);
+    const rest = attrPath.substring(separator + 1);
+    return { urn, names: rest ? rest.split('.') : [] };
+  }
+  return { names: attrPath.split('.') };
+};
+
+/**
+ * Collect every value an attribute path reaches, flattening multi-valued attributes
+ */
+export const resolveAttributeValues = (resource: unknown, attrPath: string): unknown[] => {
+  if (!resource || typeof resource !== 'object') {
+    return [];
+  }
+
+  const { urn, names } = splitAttributePath(attrPath);
+  let current: unknown[] = [resource];
+
+  if (urn) {
+    const record = resource as Record<string, unknown>;
+    const schemas = Array.isArray(record.schemas) ? record.schemas as string[] : [];
+    const isCoreSchema = schemas.length > 0 && schemas[0].toLowerCase() === urn.toLowerCase();
+    // Attributes of the core schema live at the top level, extensions under their URN
+    if (!isCoreSchema) {
+      const key = findKey(record, urn);
+      current = key ? [record[key]] : [];
+    }
+  }
+
+  for (const name of names) {
+    const next: unknown[] = [];
+    current.forEach(item => {
+      const elements = Array.isArray(item) ? item : [item];
+      elements.forEach(element => {
+        if (element && typeof element === 'object' && !Array.isArray(element)) {
+          const key = findKey(element as Record<string, unknown>, name);
+          if (key !== undefined) {
+            next.push((element as Record<string, unknown>)[key]);
+          }
+        }
+      });
+    });
+    current = next;
+  }
+
+  return current.flatMap(value => (Array.isArray(value) ? value : [value]));
+};
+
+const isDateString = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/.test(value);
+
+// Multi-valued complex attributes compare on their `value` sub-attribute
+const comparableValue = (value: unknown): unknown => {
+  if (value && typeof value === 'object' && !Array.isArray(value) && 'value' in value) {
+    return (value as Record<string, unknown>).value;
+  }
+  return value;
+};
+
+const compareValues = (actual: unknown, operator: CompareOperator, expected: FilterValue): boolean => {
+  actual = comparableValue(actual);
+
+  if (actual === undefined) {
+    return operator === 'ne';
+  }
+
+  if (expected === null || typeof expected === 'boolean') {
+    // Accept string spellings of booleans from sources that were not coerced
+    const equal = actual === expected ||
+      (typeof expected === 'boolean' && typeof actual === 'string' && actual.toLowerCase() === String(expected));
+    return operator === 'eq' ? equal : operator === 'ne' ? !equal : false;
+  }
+
+  if (typeof expected === 'number') {
+    const number = typeof actual === 'number' ? actual : Number(actual);
+    if (Number.isNaN(number)) {
+      return operator === 'ne';
+    }
+    switch (operator) {
+      case 'eq': return number === expected;
+      case 'ne': return number !== expected;
+      case 'gt': return number > expected;
+      case 'ge': return number >= expected;
+      case 'lt': return number < expected;
+      case 'le': return number <= expected;
+    }
+    const text = String(actual);
+    const pattern = String(expected);
+    if (operator === 'co') return text.includes(pattern);
+    if (operator === 'sw') return text.startsWith(pattern);
+    if (operator === 'ew') return text.endsWith(pattern);
+    return false;
+  }
+
+  if (typeof actual === 'boolean' || (actual !== null && typeof actual === 'object')) {
+    return operator === 'ne';
+  }
+
+  // Strings compare case-insensitively, the SCIM default (caseExact=false)
+  const text = String(actual ?? '').toLowerCase();
+  const pattern = expected.toLowerCase();
+
+  if (ORDERING_OPERATORS.includes(operator) && isDateString(actual) && isDateString(expected)) {
+    const difference = new Date(actual).getTime() - new Date(expected).getTime();
+    if (operator === 'gt') return difference > 0;
+    if (operator === 'ge') return difference >= 0;
+    if (operator === 'lt') return difference < 0;
+    return difference <= 0;
+  }
+
+  switch (operator) {
+    case 'eq': return text === pattern;
+    case 'ne': return text !== pattern;
+    case 'co': return text.includes(pattern);
+    case 'sw': return text.startsWith(pattern);
+    case 'ew': return text.endsWith(pattern);
+    case 'gt': return text > pattern;
+    case 'ge': return text >= pattern;
+    case 'lt': return text < pattern;
+    case 'le': return text <= pattern;
+  }
+  return false;
+};
+
+const isPresent = (value: unknown): boolean => {
+  if (value === undefined || value === null || value === '') return false;
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'object') return Object.keys(value).length > 0;
+  return true;
+};
+
+/**
+ * Evaluate a parsed filter against a SCIM resource
+ */
+export const evaluateFilter = (node: FilterNode, resource: unknown): boolean => {
+  switch (node.type) {
+    case 'logical':
+      return node.operator === 'and'
+        ? evaluateFilter(node.left, resource) && evaluateFilter(node.right, resource)
+        : evaluateFilter(node.left, resource) || evaluateFilter(node.right, resource);
+
+    case 'not':
+      return !evaluateFilter(node.filter, resource);
+
+    case 'valuePath':
+      return resolveAttributeValues(resource, node.attrPath)
+        .some(element => evaluateFilter(node.filter, element));
+
+    case 'compare': {
+      const values = resolveAttributeValues(resource, node.attrPath);
+      if (node.operator === 'pr') {
+        return values.some(isPresent);
+      }
+      if (node.operator === 'ne') {
+        // Every value must differ; an absent attribute is never equal
+        return values.every(value => compareValues(value, 'ne', node.value));
+      }
+      return values.some(value => compareValues(value, node.operator, node.value));
+    }
+  }
+};
+
+/**
+ * Filter SCIM resources with a filter expression or a parsed AST
+ */
+export const filterResources = <T>(resources: T[], filter: string | FilterNode): T[] => {
+  const node = typeof filter === 'string' ? parseFilter(filter) : filter;
+  return resources.filter(resource => evaluateFilter(node, resource));
+};
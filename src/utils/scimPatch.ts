@@ -0,0 +1,362 @@
+import { ScimError } from './scimError';
+import { evaluateFilter, FilterNode, parseFilter, splitAttributePath } from './scimFilter';
+import { isUrnPath, SCIM_SCHEMA_URNS } from './scimUtils';
+
+/**
+ * SCIM PATCH (RFC 7644 §3.5.2): validates PatchOp requests, applies their
+ * add, replace and remove operations to a SCIM resource, including value
+ * filters such as `emails[type eq "work"].value`, and works out which upstream
+ * fields changed as a result.
+ */
+
+export const PATCH_OP_SCHEMA = 'urn:ietf:params:scim:api:messages:2.0:PatchOp';
+
+export type PatchOperationType = 'add' | 'replace' | 'remove';
+
+export interface PatchOperation {
+  op: PatchOperationType;
+  path?: string;
+  value?: unknown;
+}
+
+const PATCH_OPERATION_TYPES: PatchOperationType[] = ['add', 'replace', 'remove'];
+
+// Attributes the service provider owns
+const READ_ONLY_ATTRIBUTES = ['id', 'meta', 'schemas'];
+
+type ScimObject = Record<string, unknown>;
+
+// A PATCH path split into its parts, e.g. `emails[type eq "work"].value`
+interface PatchPath {
+  urn?: string;
+  names: string[];
+  // Selects values of the multi-valued attribute named last
+  filter?: FilterNode;
+  // Sub-attribute of the selected values
+  subAttribute?: string;
+}
+
+const isObject = (value: unknown): value is ScimObject => {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+};
+
+// Attribute names are case-insensitive
+const findKey = (object: ScimObject, name: string): string | undefined => {
+  const lower = name.toLowerCase();
+  return Object.keys(object).find(key => key.toLowerCase() === lower);
+};
+
+const isCoreSchema = (urn: string): boolean => {
+  return Object.values(SCIM_SCHEMA_URNS).some(core => core.toLowerCase() === urn.toLowerCase());
+};
+
+const invalidPath = (path: string) => new ScimError(400, `Invalid attribute path: ${path}`, 'invalidPath');
+
+// Position of the `]` closing the filter opened at `open`, skipping quoted strings
+const findFilterEnd = (path: string, open: number): number => {
+  let inString = false;
+  for (let i = open + 1; i < path.length; i++) {
+    if (path[i] === '\\' && inString) {
+      i++;
+    } else if (path[i] === '"') {
+      inString = !inString;
+    } else if (path[i] === ']' && !inString) {
+      return i;
+    }
+  }
+  return -1;
+};
+
+const parsePatchPath = (path: string): PatchPath => {
+  const open = path.indexOf('[');
+  let attributePath = path;
+  let filter: FilterNode | undefined;
+  let subAttribute: string | undefined;
+
+  if (open !== -1) {
+    const close = findFilterEnd(path, open);
+    const rest = close === -1 ? '' : path.slice(close + 1);
+    if (close === -1 || (rest && !/^\.[A-Za-z$][\w$-]*$/.test(rest))) {
+      throw invalidPath(path);
+    }
+    attributePath = path.slice(0, open);
+    filter = parseFilter(path.slice(open + 1, close));
+    subAttribute = rest ? rest.slice(1) : undefined;
+  }
+
+  const { urn, names } = splitAttributePath(attributePath);
+  if (names.length === 0 || names.some(name => !name)) {
+    throw invalidPath(path);
+  }
+  return { urn, names, filter, subAttribute };
+};
+
+/**
+ * Check a PatchOp request body and return its operations. Operation names are
+ * matched case-insensitively, as some clients send `Replace` or `Add`.
+ */
+export const parsePatchRequest = (body: unknown): PatchOperation[] => {
+  if (!isObject(body)) {
+    throw new ScimError(400, 'PATCH requests need a PatchOp object as body', 'invalidSyntax');
+  }
+  const schemas = Array.isArray(body.schemas) ? body.schemas : [];
+  if (!schemas.includes(PATCH_OP_SCHEMA)) {
+    throw new ScimError(400, `PATCH requests must declare the ${PATCH_OP_SCHEMA} schema`, 'invalidSyntax');
+  }
+  if (!Array.isArray(body.Operations) || body.Operations.length === 0) {
+    throw new ScimError(400, 'PATCH requests need at least one operation in Operations', 'invalidSyntax');
+  }
+
+  return body.Operations.map((operation: unknown, index: number) => {
+    if (!isObject(operation) || typeof operation.op !== 'string') {
+      throw new ScimError(400, `Operation ${index + 1} has no op`, 'invalidSyntax');
+    }
+    const op = operation.op.toLowerCase() as PatchOperationType;
+    if (!PATCH_OPERATION_TYPES.includes(op)) {
+      throw new ScimError(400, `Operation ${index + 1} has unknown op "${operation.op}"`, 'invalidSyntax');
+    }
+    if (operation.path !== undefined && (typeof operation.path !== 'string' || !operation.path.trim())) {
+      throw new ScimError(400, `Operation ${index + 1} has an invalid path`, 'invalidPath');
+    }
+    if (op === 'remove' && !operation.path) {
+      throw new ScimError(400, `Operation ${index + 1} removes without a path`, 'noTarget');
+    }
+    if (op !== 'remove' && operation.value === undefined) {
+      throw new ScimError(400, `Operation ${index + 1} has no value`, 'invalidValue');
+    }
+    return {
+      op,
+      ...(operation.path !== undefined && { path: (operation.path as string).trim() }),
+      ...(operation.value !== undefined && { value: operation.value })
+    };
+  });
+};
+
+// Values equal by content
+const sameValue = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+// Multi-valued entries are the same when their `value` matches, e.g. group members
+const sameElement = (a: unknown, b: unknown): boolean => {
+  if (isObject(a) && isObject(b) && a.value !== undefined && b.value !== undefined) {
+    return String(a.value) === String(b.value);
+  }
+  return sameValue(a, b);
+};
+
+// Write a value into an attribute following the add/replace rules of RFC 7644 §3.5.2.1 and §3.5.2.3
+const writeAttribute = (parent: ScimObject, name: string, op: 'add' | 'replace', value: unknown): void => {
+  const key = findKey(parent, name) ?? name;
+  const existing = parent[key];
+
+  if (Array.isArray(existing) && op === 'add') {
+    const additions = Array.isArray(value) ? value : [value];
+    parent[key] = [...existing, ...additions.filter(item => !existing.some(current => sameElement(current, item)))];
+  } else if (isObject(existing) && isObject(value)) {
+    // Complex attributes keep the sub-attributes the value does not mention
+    parent[key] = { ...existing, ...value };
+  } else {
+    parent[key] = value;
+  }
+};
+
+// Attribute values a filter pins down with `eq`, used to create the value it selects
+const collectEqualities = (filter: FilterNode, into: ScimObject = {}): ScimObject => {
+  if (filter.type === 'compare' && filter.operator === 'eq' && !filter.attrPath.includes('.')) {
+    into[filter.attrPath] = filter.value;
+  } else if (filter.type === 'logical' && filter.operator === 'and') {
+    collectEqualities(filter.left, into);
+    collectEqualities(filter.right, into);
+  }
+  return into;
+};
+
+// Operation on the values of a multi-valued attribute selected by a filter
+const applyToSelectedValues = (parent: ScimObject, name: string, operation: PatchOperation, parsed: PatchPath): void => {
+  const { op, value, path } = operation;
+  const { filter, subAttribute } = parsed;
+  const key = findKey(parent, name);
+  const elements = key && Array.isArray(parent[key]) ? parent[key] as unknown[] : [];
+  const selected = elements.filter(element => evaluateFilter(filter, element));
+
+  if (op === 'remove') {
+    if (subAttribute) {
+      selected.filter(isObject).forEach(element => {
+        const subKey = findKey(element, subAttribute);
+        if (subKey) {
+          delete element[subKey];
+        }
+      });
+    } else if (key) {
+      const remaining = elements.filter(element => !selected.includes(element));
+      if (remaining.length > 0) {
+        parent[key] = remaining;
+      } else {
+        delete parent[key];
+      }
+    }
+    return;
+  }
+
+  if (selected.length === 0) {
+    if (op === 'replace') {
+      throw new ScimError(400, `No values match ${path}`, 'noTarget');
+    }
+    // Adding to a value that does not exist yet creates it, e.g. a first work email
+    const element = collectEqualities(filter);
+    if (subAttribute) {
+      element[subAttribute] = value;
+    } else if (isObject(value)) {
+      Object.assign(element, value);
+    } else {
+      throw new ScimError(400, `${path} needs an object value`, 'invalidValue');
+    }
+    parent[key ?? name] = [...elements, element];
+    return;
+  }
+
+  if (subAttribute) {
+    selected.filter(isObject).forEach(element => writeAttribute(element, subAttribute, op, value));
+  } else if (op === 'replace') {
+    parent[key] = elements.map(element => selected.includes(element) ? value : element);
+  } else if (isObject(value)) {
+    selected.filter(isObject).forEach(element => Object.assign(element, value));
+  } else {
+    throw new ScimError(400, `${path} needs an object value`, 'invalidValue');
+  }
+};
+
+// Operation without a path: the value holds attributes, extension attributes under their schema URN
+const applyToResource = (resource: ScimObject, op: 'add' | 'replace', value: unknown): void => {
+  if (!isObject(value)) {
+    throw new ScimError(400, `${op} without a path needs an object value`, 'invalidValue');
+  }
+  for (const [name, attributeValue] of Object.entries(value)) {
+    if (isUrnPath(name) && isObject(attributeValue)) {
+      for (const [subName, subValue] of Object.entries(attributeValue)) {
+        applyOperation(resource, { op, path: `${name}:${subName}`, value: subValue });
+      }
+    } else {
+      applyOperation(resource, { op, path: name, value: attributeValue });
+    }
+  }
+};
+
+const applyOperation = (resource: ScimObject, operation: PatchOperation): void => {
+  const { op, path, value } = operation;
+  if (!path) {
+    applyToResource(resource, op as 'add' | 'replace', value);
+    return;
+  }
+
+  const parsed = parsePatchPath(path);
+  const { urn, names } = parsed;
+  if (!urn && READ_ONLY_ATTRIBUTES.includes(names[0].toLowerCase())) {
+    throw new ScimError(400, `${names[0]} is read-only`, 'mutability');
+  }
+
+  // Extension attributes live in an object keyed by the schema URN
+  let parent: ScimObject = resource;
+  if (urn && !isCoreSchema(urn)) {
+    const urnKey = findKey(resource, urn);
+    if (!urnKey && op === 'remove') {
+      return;
+    }
+    parent = (urnKey ? resource[urnKey] : (resource[urn] = {})) as ScimObject;
+  }
+
+  for (const name of names.slice(0, -1)) {
+    const key = findKey(parent, name);
+    if (!key || parent[key] === undefined || parent[key] === null) {
+      if (op === 'remove') {
+        return;
+      }
+      parent[name] = {};
+      parent = parent[name] as ScimObject;
+    } else if (isObject(parent[key])) {
+      parent = parent[key] as ScimObject;
+    } else {
+      throw new ScimError(400, `${path} does not name a sub-attribute of a complex attribute`, 'invalidPath');
+    }
+  }
+
+  const last = names[names.length - 1];
+  if (parsed.filter) {
+    applyToSelectedValues(parent, last, operation, parsed);
+    return;
+  }
+  if (op !== 'remove') {
+    writeAttribute(parent, last, op, value);
+    return;
+  }
+
+  const key = findKey(parent, last);
+  if (!key) {
+    return;
+  }
+  // Some clients name the values to remove instead of filtering, e.g. group members
+  if (Array.isArray(parent[key]) && value !== undefined) {
+    const removals = Array.isArray(value) ? value : [value];
+    const remaining = (parent[key] as unknown[]).filter(element => !removals.some(removal => sameElement(element, removal)));
+    if (remaining.length > 0) {
+      parent[key] = remaining;
+      return;
+    }
+  }
+  delete parent[key];
+};
+
+/**
+ * Apply PATCH operations to a copy of a SCIM resource. The operations are
+ * applied in order; the first failing one aborts the whole request.
+ */
+export const applyPatch = (resource: unknown, operations: PatchOperation[]): ScimObject => {
+  const patched: ScimObject = isObject(resource) ? JSON.parse(JSON.stringify(resource)) : {};
+  for (const operation of operations) {
+    applyOperation(patched, operation);
+  }
+  return patched;
+};
+
+/**
+ * Changes between two upstream records as a JSON merge patch (RFC 7396):
+ * changed fields with their new value and removed fields as null. Arrays are
+ * compared and sent whole.
+ */
+export const diffRecords = (before: unknown, after: unknown): ScimObject => {
+  const previous = isObject(before) ? before : {};
+  const next = isObject(after) ? after : {};
+  const delta: ScimObject = {};
+
+  for (const key of new Set([...Object.keys(previous), ...Object.keys(next)])) {
+    if (next[key] === undefined) {
+      if (previous[key] !== undefined) {
+        delta[key] = null;
+      }
+    } else if (isObject(previous[key]) && isObject(next[key])) {
+      const nested = diffRecords(previous[key], next[key]);
+      if (Object.keys(nested).length > 0) {
+        delta[key] = nested;
+      }
+    } else if (!sameValue(previous[key], next[key])) {
+      delta[key] = next[key];
+    }
+  }
+  return delta;
+};
+
+/**
+ * Apply a merge patch from `diffRecords` to a copy of an upstream record
+ */
+export const mergeRecord = (record: unknown, delta: ScimObject): ScimObject => {
+  const merged: ScimObject = isObject(record) ? { ...record } : {};
+  for (const [key, value] of Object.entries(delta)) {
+    if (value === null) {
+      delete merged[key];
+    } else if (isObject(value) && isObject(merged[key])) {
+      merged[key] = mergeRecord(merged[key], value);
+    } else {
+      merged[key] = value;
+    }
+  }
+  return merged;
+};
@@ -0,0 +1,247 @@
+import { apiService } from './apiService';
+import { ScimResourceType, ScimUtils, scimUtils } from './scimUtils';
+import { ScimError } from './scimError';
+import { DEFAULT_CAPABILITIES, DiscoveryResource, getDiscoveryDocument, isDiscoveryResource } from './scimDiscovery';
+import {
+  buildListResponse,
+  createResource,
+  deleteResource,
+  getResource,
+  listResources,
+  patchResource,
+  replaceResource,
+  SCIM_BASE_PATH,
+  ScimListResponse
+} from './scimService';
+import { validateScimResource } from './scimValidation';
+import { parsePatchRequest } from './scimPatch';
+import { parseBulkRequest, processBulkRequest } from './scimBulk';
+import { buildItemPath, getResourceEndpoint, ResourceEndpoint } from '@/models/ConnectorProfile';
+
+/**
+ * Routes SCIM HTTP requests for one application: Users and Groups go through
+ * the mappings to the upstream API, discovery endpoints are answered locally
+ * and Bulk requests are split into requests to the other endpoints.
+ * Every failure is answered with a SCIM error envelope.
+ */
+
+export interface ScimHttpRequest {
+  method: string;
+  // Path below SCIM_BASE_PATH, e.g. `/Users/42`
+  path: string;
+  query?: Record<string, string>;
+  body?: unknown;
+}
+
+export interface ScimHttpResponse {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+// SCIM resource types behind each resource endpoint
+const SCIM_RESOURCE_ENDPOINTS: Record<string, ScimResourceType> = {
+  Users: 'User',
+  Groups: 'Group'
+};
+
+// Upstream statuses passed on to the SCIM client; others mean the upstream API failed
+const FORWARDED_UPSTREAM_STATUSES = [400, 404, 409];
+
+const respond = (status: number, body?: unknown, headers?: Record<string, string>): ScimHttpResponse => ({
+  status,
+  ...(body !== undefined && { body }),
+  ...(headers && { headers })
+});
+
+const notFound = (path: string) => new ScimError(404, `No SCIM endpoint at ${SCIM_BASE_PATH}${path}`);
+
+const methodNotAllowed = (method: string, path: string) => {
+  return new ScimError(405, `${method} is not supported on ${SCIM_BASE_PATH}${path}`);
+};
+
+const toErrorResponse = (error: unknown): ScimHttpResponse => {
+  if (error instanceof ScimError) {
+    return respond(error.status, error.toResponse());
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  const upstream = /^API error: (\d{3})/.exec(message);
+  if (!upstream) {
+    return respond(500, new ScimError(500, message).toResponse());
+  }
+  const upstreamStatus = Number(upstream[1]);
+  const status = FORWARDED_UPSTREAM_STATUSES.includes(upstreamStatus) ? upstreamStatus : 502;
+  return respond(status, new ScimError(status, `Upstream request failed: ${message}`, status === 409 ? 'uniqueness' : undefined).toResponse());
+};
+
+const parseCount = (text?: string): number | undefined => {
+  const value = text === undefined ? NaN : parseInt(text, 10);
+  return Number.isNaN(value) ? undefined : Math.max(0, value);
+};
+
+// Discovery documents, or one entry of the ResourceTypes and Schemas lists
+const getDiscoveryResponse = (resource: DiscoveryResource, id: string | undefined, path: string, utils: ScimUtils): unknown => {
+  const document = getDiscoveryDocument(resource, utils);
+  if (id === undefined) {
+    return document;
+  }
+  if (resource === 'ServiceProviderConfig') {
+    throw notFound(path);
+  }
+  const entry = (document as ScimListResponse).Resources.find(item => (item as { id?: string }).id === id);
+  if (!entry) {
+    throw new ScimError(404, `No ${resource === 'Schemas' ? 'schema' : 'resource type'} "${id}"`);
+  }
+  return entry;
+};
+
+// Reject bodies that are not SCIM resources of the expected type
+const requireResource = (body: unknown, resourceType: ScimResourceType, utils: ScimUtils): unknown => {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new ScimError(400, `Expected a SCIM ${resourceType} as request body`, 'invalidSyntax');
+  }
+  const errors = validateScimResource(body, resourceType, utils.getConfig()?.schemaExtensions || []).filter(issue => issue.severity === 'error');
+  if (errors.length > 0) {
+    throw new ScimError(
+      400,
+      errors.map(issue => issue.path ? `${issue.path}: ${issue.message}` : issue.message).join('; '),
+      'invalidValue'
+    );
+  }
+  return body;
+};
+
+const locationOf = (resourceName: string, resource: unknown): string | undefined => {
+  const id = (resource as { id?: unknown } | undefined)?.id;
+  return id !== undefined && id !== null && id !== '' ? `${SCIM_BASE_PATH}/${resourceName}/${encodeURIComponent(String(id))}` : undefined;
+};
+
+const handleCollection = async (
+  method: string,
+  request: ScimHttpRequest,
+  resourceName: string,
+  resourceType: ScimResourceType,
+  endpoint: ResourceEndpoint,
+  applicationId: string | undefined,
+  utils: ScimUtils
+): Promise<ScimHttpResponse> => {
+  switch (method) {
+    case 'GET': {
+      const query = request.query || {};
+      const result = await listResources(resourceType, endpoint.resourcePath, {
+        filter: query.filter,
+        startIndex: parseCount(query.startIndex) || 1,
+        count: parseCount(query.count)
+      }, applicationId, endpoint, utils);
+      return respond(200, result.listResponse ?? buildListResponse([result.resource], 1));
+    }
+    case 'POST': {
+      const resource = requireResource(request.body, resourceType, utils);
+      const result = await createResource(resourceType, endpoint.resourcePath, resource, applicationId, utils);
+      const created = result.resource ?? resource;
+      const location = locationOf(resourceName, created);
+      return respond(201, created, location ? { Location: location } : undefined);
+    }
+    default:
+      throw methodNotAllowed(method, request.path);
+  }
+};
+
+const handleItem = async (
+  method: string,
+  request: ScimHttpRequest,
+  resourceName: string,
+  resourceType: ScimResourceType,
+  itemPath: string,
+  id: string,
+  applicationId: string | undefined,
+  utils: ScimUtils
+): Promise<ScimHttpResponse> => {
+  switch (method) {
+    case 'GET':
+      return respond(200, await getResource(resourceType, itemPath, applicationId, utils));
+    case 'PUT': {
+      const resource = requireResource(request.body, resourceType, utils);
+      const result = await replaceResource(resourceType, itemPath, resource, applicationId, utils);
+      return respond(200, result.resource ?? resource);
+    }
+    case 'PATCH': {
+      if (!(utils.getConfig()?.capabilities || DEFAULT_CAPABILITIES).patch) {
+        throw new ScimError(501, 'PATCH is not enabled in the service provider capabilities');
+      }
+      const result = await patchResource(resourceType, itemPath, parsePatchRequest(request.body), applicationId, utils);
+      return respond(200, result.resource);
+    }
+    case 'DELETE':
+      await deleteResource(itemPath, applicationId);
+      return respond(204);
+    default:
+      throw methodNotAllowed(method, `/${resourceName}/${id}`);
+  }
+};
+
+const handleBulk = async (
+  method: string,
+  request: ScimHttpRequest,
+  applicationId: string | undefined,
+  utils: ScimUtils
+): Promise<ScimHttpResponse> => {
+  if (method !== 'POST') {
+    throw methodNotAllowed(method, request.path);
+  }
+  const capabilities = utils.getConfig()?.capabilities || DEFAULT_CAPABILITIES;
+  if (!capabilities.bulk.supported) {
+    throw new ScimError(501, 'Bulk operations are not enabled in the service provider capabilities');
+  }
+  const bulkRequest = parseBulkRequest(request.body, capabilities.bulk);
+  return respond(200, await processBulkRequest(bulkRequest, operation => handleScimRequest(operation, applicationId, utils)));
+};
+
+const route = async (request: ScimHttpRequest, applicationId: string | undefined, utils: ScimUtils): Promise<ScimHttpResponse> => {
+  const method = request.method.toUpperCase();
+  const [resourceName, id, ...rest] = request.path.split('/').filter(Boolean).map(decodeURIComponent);
+  if (!resourceName || rest.length > 0) {
+    throw notFound(request.path);
+  }
+
+  if (isDiscoveryResource(resourceName)) {
+    if (method !== 'GET') {
+      throw methodNotAllowed(method, request.path);
+    }
+    return respond(200, getDiscoveryResponse(resourceName, id, request.path, utils));
+  }
+
+  if (resourceName === 'Bulk' && id === undefined) {
+    return handleBulk(method, request, applicationId, utils);
+  }
+
+  const resourceType = SCIM_RESOURCE_ENDPOINTS[resourceName];
+  if (!resourceType) {
+    throw notFound(request.path);
+  }
+  const endpoint = getResourceEndpoint(apiService.getConnectorProfile(applicationId), resourceType);
+  if (!endpoint) {
+    throw new ScimError(404, `${resourceName} are not available: the connector profile has no upstream path for them`);
+  }
+
+  return id === undefined
+    ? handleCollection(method, request, resourceName, resourceType, endpoint, applicationId, utils)
+    : handleItem(method, request, resourceName, resourceType, buildItemPath(endpoint, id), id, applicationId, utils);
+};
+
+/**
+ * Answer a SCIM request against the given application's upstream API, using
+ * the mappings and capabilities in `utils`
+ */
+export const handleScimRequest = async (
+  request: ScimHttpRequest,
+  applicationId?: string,
+  utils: ScimUtils = scimUtils
+): Promise<ScimHttpResponse> => {
+  try {
+    return await route(request, applicationId, utils);
+  } catch (error) {
+    console.error(`SCIM ${request.method} ${request.path} failed:`, error);
+    return toErrorResponse(error);
+  }
+};
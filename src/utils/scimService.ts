@@ -0,0 +1,403 @@
+import { apiService } from './apiService';
+import { getWriteSkipReason, ScimResourceType, ScimUtils, scimUtils } from './scimUtils';
+import { FilterNode, filterResources, parseFilter } from './scimFilter';
+import { appendQueryParams, FilterTranslation, translateFilter } from './filterTranslator';
+import { fetchAllUpstream, fetchUpstreamPage, MAX_UPSTREAM_PAGES } from './pagination';
+import { buildItemPath, ResourceEndpoint, UpdateMethod } from '@/models/ConnectorProfile';
+import { validateScimResource, ValidationIssue } from './scimValidation';
+import { ScimError } from './scimError';
+import { applyPatch, diffRecords, mergeRecord, PatchOperation } from './scimPatch';
+
+export const LIST_RESPONSE_SCHEMA = 'urn:ietf:params:scim:api:messages:2.0:ListResponse';
+
+// Path the SCIM facade is served under, used for `$ref` URIs
+export const SCIM_BASE_PATH = '/scim/v2';
+
+// Largest filtered result set: filters are evaluated over every upstream page
+export const MAX_FILTER_RESULTS = MAX_UPSTREAM_PAGES * 100;
+
+export interface ScimListResponse {
+  schemas: string[];
+  totalResults: number;
+  startIndex: number;
+  itemsPerPage: number;
+  Resources: unknown[];
+}
+
+export interface ListQuery {
+  filter?: string;
+  // 1-based, defaults to 1
+  startIndex?: number;
+  count?: number;
+}
+
+export interface ListResult {
+  // Set for list endpoints
+  listResponse?: ScimListResponse;
+  // Set when the endpoint returned a single resource
+  resource?: unknown;
+  // Upstream records the result was built from
+  upstream: unknown;
+  // How the filter was split between upstream and local evaluation
+  filterTranslation?: FilterTranslation;
+}
+
+/**
+ * Build a SCIM ListResponse for one page of resources
+ */
+export const buildListResponse = (resources: unknown[], totalResults: number, startIndex: number = 1): ScimListResponse => ({
+  schemas: [LIST_RESPONSE_SCHEMA],
+  totalResults,
+  startIndex,
+  itemsPerPage: resources.length,
+  Resources: resources
+});
+
+/**
+ * Turn the member ids of SCIM Groups into `{value, $ref, display}` references.
+ * Members without a mapped display name are looked up upstream through the
+ * User mapping, once per id; members that cannot be found keep their id.
+ */
+export const resolveGroupMembers = async (
+  groups: unknown[],
+  applicationId?: string,
+  utils: ScimUtils = scimUtils
+): Promise<unknown[]> => {
+  const profile = apiService.getConnectorProfile(applicationId);
+  const displayNames = new Map<string, string | undefined>();
+
+  const lookupDisplayName = async (id: string): Promise<string | undefined> => {
+    if (!displayNames.has(id)) {
+      try {
+        const user = await apiService.fetchData(buildItemPath(profile, id), { method: 'GET' }, applicationId);
+        const scimUser = utils.transformToScim(user, 'User');
+        displayNames.set(id, scimUser.displayName ?? scimUser.userName);
+      } catch (error) {
+        console.error(`Could not resolve group member ${id}:`, error);
+        displayNames.set(id, undefined);
+      }
+    }
+    return displayNames.get(id);
+  };
+
+  const resolved: unknown[] = [];
+  for (const group of groups) {
+    if (!group || typeof group !== 'object' || !Array.isArray((group as { members?: unknown }).members)) {
+      resolved.push(group);
+      continue;
+    }
+
+    const members: unknown[] = [];
+    for (const member of (group as { members: unknown[] }).members) {
+      const { value, display, type, ...rest } = (member && typeof member === 'object' ? member : { value: member }) as Record<string, unknown>;
+      // Nested groups and members without an id are left alone
+      if (value === undefined || value === null || value === '' || (type !== undefined && type !== 'User')) {
+        members.push(member);
+        continue;
+      }
+
+      const id = String(value);
+      const displayName = display ?? await lookupDisplayName(id);
+      members.push({
+        ...rest,
+        value: id,
+        $ref: `${SCIM_BASE_PATH}/Users/${encodeURIComponent(id)}`,
+        ...(displayName !== undefined && { display: displayName }),
+        ...(type !== undefined && { type })
+      });
+    }
+    resolved.push({ ...group, members });
+  }
+  return resolved;
+};
+
+// Groups reference their members; other resources pass through
+const withResolvedMembers = (
+  resourceType: ScimResourceType,
+  resources: unknown[],
+  applicationId: string | undefined,
+  utils: ScimUtils
+): Promise<unknown[]> => {
+  return resourceType === 'Group' ? resolveGroupMembers(resources, applicationId, utils) : Promise.resolve(resources);
+};
+
+/**
+ * Query upstream Users or Groups and answer as a SCIM ListResponse. Throws
+ * ScimError for invalid filters. `resource` supplies the list envelope of
+ * resources other than users.
+ *
+ * Without a filter, paging goes straight to the upstream API. With one, the
+ * part the API can evaluate is pushed down as query parameters, but the whole
+ * filter is re-checked locally: upstream search parameters are often looser
+ * (fuzzy or multi-field) than the SCIM operator they stand in for. That means
+ * every candidate has to be fetched before the page can be cut. Filters are
+ * refused when the declared capabilities disable them, and so are filters
+ * matching more than the declared maximum number of results.
+ */
+export const listResources = async (
+  resourceType: ScimResourceType,
+  endpoint: string,
+  query: ListQuery = {},
+  applicationId?: string,
+  resource?: ResourceEndpoint,
+  utils: ScimUtils = scimUtils
+): Promise<ListResult> => {
+  const startIndex = Math.max(1, query.startIndex || 1);
+  const parsedFilter: FilterNode | null = query.filter?.trim() ? parseFilter(query.filter) : null;
+
+  const filterCapability = utils.getConfig()?.capabilities?.filter || { supported: true, maxResults: MAX_FILTER_RESULTS };
+  if (parsedFilter && !filterCapability.supported) {
+    throw new ScimError(400, 'Filtering is not enabled in the service provider capabilities', 'invalidFilter');
+  }
+
+  if (!parsedFilter) {
+    const page = await fetchUpstreamPage(endpoint, { startIndex, count: query.count }, applicationId, resource);
+    if (page.resource !== undefined) {
+      const [single] = await withResolvedMembers(resourceType, [utils.transformToScim(page.resource, resourceType)], applicationId, utils);
+      return { resource: single, upstream: page.resource };
+    }
+
+    const resources = await withResolvedMembers(
+      resourceType,
+      page.items.map(item => utils.transformToScim(item, resourceType)),
+      applicationId,
+      utils
+    );
+    return {
+      listResponse: buildListResponse(resources, page.totalResults, startIndex),
+      upstream: page.items
+    };
+  }
+
+  const filterTranslation = translateFilter(parsedFilter, utils.getMappings(resourceType));
+  const candidates = await fetchAllUpstream(appendQueryParams(endpoint, filterTranslation.query), applicationId, resource);
+  const matches = filterResources(candidates.map(item => utils.transformToScim(item, resourceType)), parsedFilter);
+  if (filterCapability.maxResults > 0 && matches.length > filterCapability.maxResults) {
+    throw new ScimError(
+      400,
+      `The filter matches ${matches.length} resources; the maximum is ${filterCapability.maxResults}`,
+      'tooMany'
+    );
+  }
+  const end = query.count === undefined ? undefined : startIndex - 1 + Math.max(0, query.count);
+
+  const resources = await withResolvedMembers(resourceType, matches.slice(startIndex - 1, end), applicationId, utils);
+
+  return {
+    listResponse: buildListResponse(resources, matches.length, startIndex),
+    upstream: candidates,
+    filterTranslation
+  };
+};
+
+/**
+ * Read one upstream User or Group as a SCIM resource. Throws ScimError when
+ * the upstream answer is not a single record.
+ */
+export const getResource = async (
+  resourceType: ScimResourceType,
+  itemEndpoint: string,
+  applicationId?: string,
+  utils: ScimUtils = scimUtils
+): Promise<unknown> => {
+  const upstream = await apiService.fetchData(itemEndpoint, { method: 'GET' }, applicationId);
+  if (!upstream || typeof upstream !== 'object' || Array.isArray(upstream)) {
+    throw new ScimError(404, `${resourceType} not found at ${itemEndpoint}`);
+  }
+  const [resource] = await withResolvedMembers(resourceType, [utils.transformToScim(upstream, resourceType)], applicationId, utils);
+  return resource;
+};
+
+// Values of one upstream record that could not be coerced to their attribute type
+export interface CoercionReport {
+  record: string;
+  issues: ValidationIssue[];
+}
+
+/**
+ * Transform upstream records and collect their coercion issues, one report per record
+ */
+export const buildCoercionReport = (
+  records: unknown[],
+  resourceType: ScimResourceType,
+  utils: ScimUtils = scimUtils
+): CoercionReport[] => {
+  return records.map((record, index) => {
+    const issues: ValidationIssue[] = [];
+    const resource = utils.transformToScim(record, resourceType, issues);
+    const label = resource.id ?? resource.externalId ?? resource.userName ?? resource.displayName;
+    return { record: label !== undefined ? String(label) : `Record ${index + 1}`, issues };
+  });
+};
+
+// A mapping left out of the upstream payload, and why
+export interface SkippedMapping {
+  scimAttribute: string;
+  reason: string;
+}
+
+/**
+ * List the configured mappings that writes leave out
+ */
+export const getSkippedWriteMappings = (
+  resourceType: ScimResourceType = 'User',
+  utils: ScimUtils = scimUtils
+): SkippedMapping[] => {
+  return utils.getMappings(resourceType)
+    .map(mapping => ({ scimAttribute: mapping.scimAttribute, reason: getWriteSkipReason(mapping) }))
+    .filter((skipped): skipped is SkippedMapping => skipped.reason !== null);
+};
+
+export interface WriteResult {
+  // Upstream-shaped body that was sent
+  request: unknown;
+  // Upstream response body
+  upstream: unknown;
+  // Upstream response translated back to SCIM, when there was one
+  resource?: unknown;
+  skipped: SkippedMapping[];
+}
+
+// Translate a SCIM resource for the upstream API, send it and translate the answer back
+const writeResource = async (
+  method: 'POST' | 'PUT',
+  resourceType: ScimResourceType,
+  endpoint: string,
+  scimResource: unknown,
+  applicationId: string | undefined,
+  utils: ScimUtils
+): Promise<WriteResult> => {
+  const request = utils.transformFromScim(scimResource, resourceType);
+  const upstream = await apiService.fetchData(endpoint, {
+    method,
+    body: JSON.stringify(request)
+  }, applicationId);
+
+  const [resource] = upstream && typeof upstream === 'object'
+    ? await withResolvedMembers(resourceType, [utils.transformToScim(upstream, resourceType)], applicationId, utils)
+    : [undefined];
+
+  return {
+    request,
+    upstream,
+    resource,
+    skipped: getSkippedWriteMappings(resourceType, utils)
+  };
+};
+
+/**
+ * Create an upstream User or Group from a SCIM resource
+ */
+export const createResource = (
+  resourceType: ScimResourceType,
+  endpoint: string,
+  scimResource: unknown,
+  applicationId?: string,
+  utils: ScimUtils = scimUtils
+): Promise<WriteResult> => {
+  return writeResource('POST', resourceType, endpoint, scimResource, applicationId, utils);
+};
+
+/**
+ * Replace an upstream User or Group with a SCIM resource
+ */
+export const replaceResource = (
+  resourceType: ScimResourceType,
+  itemEndpoint: string,
+  scimResource: unknown,
+  applicationId?: string,
+  utils: ScimUtils = scimUtils
+): Promise<WriteResult> => {
+  return writeResource('PUT', resourceType, itemEndpoint, scimResource, applicationId, utils);
+};
+
+export interface PatchResult extends WriteResult {
+  // How the change was sent upstream; null when no mapped field changed
+  method: UpdateMethod | null;
+  // Upstream fields that changed, with null for removed ones
+  delta: Record<string, unknown>;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+};
+
+const describeIssue = (issue: ValidationIssue): string => issue.path ? `${issue.path}: ${issue.message}` : issue.message;
+
+/**
+ * Apply SCIM PATCH operations to an upstream User or Group. The operations run
+ * against the current resource, and only upstream fields whose mapped values
+ * changed are written: as a PATCH of those fields, or a PUT of the current
+ * record with them merged in, as the connector profile says. Fields no mapping
+ * writes are left as they are either way, and changing an attribute whose
+ * mapping cannot be written is refused.
+ */
+export const patchResource = async (
+  resourceType: ScimResourceType,
+  itemEndpoint: string,
+  operations: PatchOperation[],
+  applicationId?: string,
+  utils: ScimUtils = scimUtils
+): Promise<PatchResult> => {
+  const current = await apiService.fetchData(itemEndpoint, { method: 'GET' }, applicationId);
+  if (!isRecord(current)) {
+    throw new ScimError(404, `${resourceType} not found at ${itemEndpoint}`);
+  }
+
+  const resource = utils.transformToScim(current, resourceType);
+  const patched = applyPatch(resource, operations);
+  const extensions = utils.getConfig()?.schemaExtensions || [];
+  // Problems the record already had are not the patch's doing
+  const existing = new Set(validateScimResource(resource, resourceType, extensions).map(describeIssue));
+  const errors = validateScimResource(patched, resourceType, extensions)
+    .filter(issue => issue.severity === 'error')
+    .map(describeIssue)
+    .filter(issue => !existing.has(issue));
+  if (errors.length > 0) {
+    throw new ScimError(400, errors.join('; '), 'invalidValue');
+  }
+
+  // Both sides go through the reverse mapping so that only real changes show up
+  const delta = diffRecords(
+    utils.transformFromScim(resource, resourceType),
+    utils.transformFromScim(patched, resourceType)
+  );
+  const skipped = getSkippedWriteMappings(resourceType, utils);
+
+  // Changes no mapping can write would otherwise be dropped without a word
+  const unwritable = skipped.filter(mapping => JSON.stringify(utils.getAttributeValue(resource, mapping.scimAttribute))
+    !== JSON.stringify(utils.getAttributeValue(patched, mapping.scimAttribute)));
+  if (unwritable.length > 0) {
+    throw new ScimError(
+      400,
+      `Cannot change ${unwritable.map(mapping => `${mapping.scimAttribute} (${mapping.reason})`).join(', ')}`,
+      'mutability'
+    );
+  }
+
+  if (Object.keys(delta).length === 0) {
+    const [unchanged] = await withResolvedMembers(resourceType, [resource], applicationId, utils);
+    return { request: null, upstream: current, resource: unchanged, skipped, method: null, delta };
+  }
+
+  const method = apiService.getConnectorProfile(applicationId).updateMethod || 'PUT';
+  const request = method === 'PATCH' ? delta : mergeRecord(current, delta);
+  const upstream = await apiService.fetchData(itemEndpoint, {
+    method,
+    body: JSON.stringify(request)
+  }, applicationId);
+
+  // Empty and non-JSON answers arrive as `{ text }`: the change is then assumed applied as sent
+  const answeredRecord = isRecord(upstream) && Object.keys(upstream).some(key => key !== 'text');
+  const updated = answeredRecord ? upstream : mergeRecord(current, delta);
+  const [patchedResource] = await withResolvedMembers(resourceType, [utils.transformToScim(updated, resourceType)], applicationId, utils);
+
+  return { request, upstream, resource: patchedResource, skipped, method, delta };
+};
+
+/**
+ * Delete an upstream User or Group, returning the upstream response body
+ */
+export const deleteResource = (itemEndpoint: string, applicationId?: string): Promise<unknown> => {
+  return apiService.fetchData(itemEndpoint, { method: 'DELETE' }, applicationId);
+};
@@ -1,38 +1,209 @@
+import { evaluateExpression, expressionFunctions, ExpressionScope } from './expression';
+import { ApplicationConfig, MappingItem, ScimCapabilities, TransformVariable } from '@/models/ApplicationConfig';
+import { splitAttributePath } from './scimFilter';
+import type { SchemaExtension } from '@/models/SchemaExtension';
+import { findAttributeDefinition } from '@/models/ScimSchemaCatalog';
+import { coerceValue } from './scimCoercion';
+import type { ValidationIssue } from './scimValidation';
 
-interface MappingItem {
-  scimAttribute: string;
-  sourceField: string;
-  isRequired: boolean;
-  transformation?: string;
+// Application metadata exposed to transformations as `app`
+export interface TransformAppMetadata {
+  id?: string;
+  name?: string;
+  baseUrl?: string;
 }
 
-interface ScimConfig {
+// SCIM resource types backed by upstream records
+export type ScimResourceType = 'User' | 'Group';
+
+export const SCIM_SCHEMA_URNS: Record<ScimResourceType, string> = {
+  User: 'urn:ietf:params:scim:schemas:core:2.0:User',
+  Group: 'urn:ietf:params:scim:schemas:core:2.0:Group'
+};
+
+export const ENTERPRISE_USER_SCHEMA = 'urn:ietf:params:scim:schemas:extension:enterprise:2.0:User';
+
+/**
+ * Whether an attribute path is qualified with a schema URN, e.g.
+ * `urn:ietf:params:scim:schemas:extension:enterprise:2.0:User:employeeNumber`
+ */
+export const isUrnPath = (path: string): boolean => path.toLowerCase().startsWith('urn:');
+
+// Core schema attributes live at the top level of a resource even when qualified
+const isCoreSchema = (urn: string): boolean =>
+  Object.values(SCIM_SCHEMA_URNS).some(core => core.toLowerCase() === urn.toLowerCase());
+
+export interface ScimConfig {
+  // User mappings
   mappings: MappingItem[];
+  groupMappings?: MappingItem[];
   baseUrl: string;
   resourceTypes: string[];
+  app?: TransformAppMetadata;
+  variables?: TransformVariable[];
+  // Custom extension schemas declared for the application
+  schemaExtensions?: SchemaExtension[];
+  // Declared in the ServiceProviderConfig document
+  capabilities?: ScimCapabilities;
 }
 
+// What the SCIM layer needs to know about an application
+export const toScimConfig = (app: ApplicationConfig): ScimConfig => ({
+  mappings: app.mappings,
+  groupMappings: app.groupMappings || [],
+  baseUrl: app.apiConfig.baseUrl,
+  resourceTypes: ['Users', 'Groups'],
+  app: {
+    id: app.id,
+    name: app.name,
+    baseUrl: app.apiConfig.baseUrl
+  },
+  variables: app.variables || [],
+  schemaExtensions: app.schemaExtensions || [],
+  capabilities: app.capabilities
+});
+
+// Identifiers every transformation scope binds; variables may not shadow them
+export const RESERVED_SCOPE_NAMES = ['value', 'source', 'app', 'element', 'index', 'scim'];
+
+// Suffix marking a source field as an array whose elements are mapped one by one
+export const ARRAY_WILDCARD = '[*]';
+
+/**
+ * Strip the `[*]` wildcard from a multi-valued source field, e.g. `contacts[*]` -> `contacts`
+ */
+export const getSourceArrayPath = (sourceField: string): string => {
+  return sourceField.endsWith(ARRAY_WILDCARD)
+    ? sourceField.slice(0, -ARRAY_WILDCARD.length)
+    : sourceField;
+};
+
+/**
+ * Build the evaluation scope for a source record: `source`, `app` and the
+ * named variables, which are evaluated in order and may use earlier ones
+ */
+export const buildTransformScope = (
+  sourceData: unknown,
+  app?: TransformAppMetadata,
+  variables: TransformVariable[] = []
+): ExpressionScope => {
+  const scope: ExpressionScope = {
+    source: sourceData ?? {},
+    app: app ?? {}
+  };
+
+  variables.forEach(variable => {
+    if (!variable.name || RESERVED_SCOPE_NAMES.includes(variable.name)) {
+      return;
+    }
+    try {
+      scope[variable.name] = evaluateExpression(variable.expression, scope);
+    } catch (error) {
+      console.error(`Error evaluating variable ${variable.name}:`, error);
+      scope[variable.name] = undefined;
+    }
+  });
+
+  return scope;
+};
+
+/**
+ * Resolve a mapping's value for a source record. Mappings without a source
+ * field are computed purely from their transformation.
+ */
+export const resolveMappingValue = (
+  mapping: MappingItem,
+  scope: ExpressionScope,
+  readSourceField: (path: string) => unknown
+): unknown => {
+  const computed = !mapping.sourceField;
+  let value = computed ? undefined : readSourceField(mapping.sourceField);
+
+  // Apply transformation if specified
+  if (mapping.transformation && (computed || value !== undefined)) {
+    try {
+      value = evaluateExpression(mapping.transformation, { ...scope, value });
+    } catch (error) {
+      console.error(`Error applying transformation for ${mapping.scimAttribute}:`, error);
+      return computed ? undefined : value;
+    }
+  }
+
+  return value;
+};
+
+/**
+ * Why a mapping is not applied when writing SCIM resources upstream, or null
+ * if it is. Transformed values can only be written back through an inverse.
+ */
+export const getWriteSkipReason = (mapping: MappingItem): string | null => {
+  if (mapping.direction === 'outbound') {
+    return 'outbound only';
+  }
+  if (mapping.multiValued) {
+    return null;
+  }
+  if (!mapping.sourceField) {
+    return 'computed value has no source field to write';
+  }
+  if (mapping.transformation?.trim() && !mapping.inverseTransformation?.trim()) {
+    return 'transformation has no inverse';
+  }
+  return null;
+};
+
+/**
+ * Whether a mapping is applied when reading upstream records into SCIM
+ */
+export const isReadMapping = (mapping: MappingItem): boolean => mapping.direction !== 'inbound';
+
 export class ScimUtils {
   private config: ScimConfig | null = null;
 
-  constructor(config?: ScimConfig) {
+  constructor(config?: ScimConfig, persist: boolean = true) {
     if (config) {
-      this.setConfig(config);
+      this.setConfig(config, persist);
     } else {
       // Try to load from localStorage
       this.loadConfig();
     }
   }
 
-  setConfig(config: ScimConfig): void {
+  setConfig(config: ScimConfig, persist: boolean = true): void {
     this.config = config;
-    localStorage.setItem('scim_mapper_config', JSON.stringify(config));
+    if (persist) {
+      localStorage.setItem('scim_mapper_config', JSON.stringify(config));
+    }
   }
 
   getConfig(): ScimConfig | null {
     return this.config;
   }
 
+  /**
+   * Mappings applied to a resource type
+   */
+  getMappings(resourceType: string = 'User'): MappingItem[] {
+    if (!this.config) {
+      return [];
+    }
+    return (resourceType === 'Group' ? this.config.groupMappings : this.config.mappings) || [];
+  }
+
+  /**
+   * Custom extension schemas declared for a resource type
+   */
+  getSchemaExtensions(resourceType: string = 'User'): SchemaExtension[] {
+    return (this.config?.schemaExtensions || []).filter(extension => extension.resourceType === resourceType);
+  }
+
+  /**
+   * Value of a SCIM attribute in a resource, e.g. `name.givenName`
+   */
+  getAttributeValue(scimData: unknown, scimAttribute: string): unknown {
+    return this.getNestedValue(scimData, scimAttribute);
+  }
+
   private loadConfig(): void {
     const storedConfig = localStorage.getItem('scim_mapper_config');
     if (storedConfig) {
@@ -45,47 +216,50 @@ export class ScimUtils {
   }
 
   /**
-   * Transform source API data to SCIM format
+   * Transform source API data to SCIM format. Each value is coerced to the type
+   * of its attribute; values that cannot be are added to `issues`.
    */
-  transformToScim(sourceData: any, resourceType: string = 'User'): any {
+  transformToScim(sourceData: any, resourceType: string = 'User', issues: ValidationIssue[] = []): any {
     if (!this.config) {
       throw new Error('SCIM configuration not set');
     }
 
     // Determine schema based on resource type
-    let schemas: string[] = [];
-    switch (resourceType) {
-      case 'User':
-        schemas = ['urn:ietf:params:scim:schemas:core:2.0:User'];
-        break;
-      case 'Group':
-        schemas = ['urn:ietf:params:scim:schemas:core:2.0:Group'];
-        break;
-      default:
-        throw new Error(`Unsupported resource type: ${resourceType}`);
+    if (resourceType !== 'User' && resourceType !== 'Group') {
+      throw new Error(`Unsupported resource type: ${resourceType}`);
     }
+    const schemas = [SCIM_SCHEMA_URNS[resourceType]];
 
     // Initialize SCIM data with schema
     const scimData: Record<string, any> = {
       schemas
     };
 
+    const scope = buildTransformScope(sourceData, this.config.app, this.config.variables);
+
     // Apply mappings
-    this.config.mappings.forEach(mapping => {
-      if (mapping.sourceField) {
-        let value = this.getNestedValue(sourceData, mapping.sourceField);
+    this.getMappings(resourceType).filter(isReadMapping).forEach(mapping => {
+      if (mapping.multiValued) {
+        const elements = this.transformMultiValuedToScim(mapping, sourceData, scope)
+          .map((element, index) => this.coerceElement(element, index, mapping, resourceType, issues))
+          .filter(element => Object.keys(element).length > 0);
         
-        // Apply transformation if specified
-        if (mapping.transformation && value !== undefined) {
-          try {
-            // This is a simplified implementation and not secure for production
-            // eslint-disable-next-line no-new-func
-            const transform = new Function('value', `return ${mapping.transformation}`);
-            value = transform(value);
-          } catch (error) {
-            console.error(`Error applying transformation for ${mapping.scimAttribute}:`, error);
-          }
+        if (elements.length > 0) {
+          const existing = this.getNestedValue(scimData, mapping.scimAttribute);
+          this.setNestedValue(
+            scimData,
+            mapping.scimAttribute,
+            Array.isArray(existing) ? [...existing, ...elements] : elements
+          );
         }
+      } else if (mapping.sourceField || mapping.transformation) {
+        const value = this.coerceMappedValue(
+          resolveMappingValue(mapping, scope, path => this.getNestedValue(sourceData, path)),
+          mapping.scimAttribute,
+          mapping,
+          resourceType,
+          issues
+        );
         
         // Only set if value is not undefined
         if (value !== undefined) {
@@ -94,6 +268,14 @@ export class ScimUtils {
       }
     });
 
+    this.enforceSinglePrimary(scimData);
+    this.stringifyIds(scimData);
+
+    // Declare every extension that ended up with attributes
+    Object.keys(scimData)
+      .filter(key => isUrnPath(key) && !schemas.includes(key))
+      .forEach(urn => schemas.push(urn));
+
     // Add metadata
     scimData.meta = {
       resourceType,
@@ -107,17 +289,33 @@ export class ScimUtils {
   /**
    * Transform SCIM data to source API format
    */
-  transformFromScim(scimData: any): any {
+  transformFromScim(scimData: any, resourceType: string = 'User'): any {
     if (!this.config) {
       throw new Error('SCIM configuration not set');
     }
 
     const sourceData: Record<string, any> = {};
+    const scope: ExpressionScope = { scim: scimData ?? {}, app: this.config.app ?? {} };
 
-    // Apply reverse mappings
-    this.config.mappings.forEach(mapping => {
-      if (mapping.scimAttribute && mapping.sourceField) {
-        const value = this.getNestedValue(scimData, mapping.scimAttribute);
+    // Apply reverse mappings, leaving out those that cannot be written back
+    this.getMappings(resourceType).filter(mapping => !getWriteSkipReason(mapping)).forEach(mapping => {
+      if (mapping.multiValued) {
+        const elements = this.transformMultiValuedFromScim(mapping, scimData);
+        
+        if (elements !== undefined) {
+          this.setNestedValue(sourceData, getSourceArrayPath(mapping.sourceField), elements);
+        }
+      } else if (mapping.scimAttribute && mapping.sourceField) {
+        let value = this.getNestedValue(scimData, mapping.scimAttribute);
+        
+        if (mapping.inverseTransformation?.trim() && value !== undefined) {
+          try {
+            value = evaluateExpression(mapping.inverseTransformation, { ...scope, value });
+          } catch (error) {
+            console.error(`Error applying inverse transformation for ${mapping.scimAttribute}:`, error);
+            return;
+          }
+        }
         
         // Only set if value is not undefined
         if (value !== undefined) {
@@ -129,28 +327,6 @@ export class ScimUtils {
     return sourceData;
   }
 
-  /**
-   * Generate SCIM endpoints based on configuration
-   */
-  generateEndpoints(): Record<string, string> {
-    if (!this.config) {
-      throw new Error('SCIM configuration not set');
-    }
-
-    const endpoints: Record<string, string> = {
-      ServiceProviderConfig: `/ServiceProviderConfig`,
-      Schemas: `/Schemas`,
-    };
-
-    // Add resource-specific endpoints
-    this.config.resourceTypes.forEach(resourceType => {
-      endpoints[resourceType] = `/${resourceType}`;
-      endpoints[`${resourceType}Id`] = `/${resourceType}/{id}`;
-    });
-
-    return endpoints;
-  }
-
   /**
    * Validate source data against required SCIM mappings
    */
@@ -163,10 +339,10 @@ export class ScimUtils {
 
     // Check required fields
     this.config.mappings
-      .filter(mapping => mapping.isRequired)
+      .filter(mapping => mapping.isRequired && mapping.sourceField && isReadMapping(mapping))
       .forEach(mapping => {
-        const value = this.getNestedValue(sourceData, mapping.sourceField);
-        if (value === undefined || value === null || value === '') {
+        const value = this.getNestedValue(sourceData, getSourceArrayPath(mapping.sourceField));
+        if (value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)) {
           missing.push(mapping.sourceField);
         }
       });
@@ -178,9 +354,229 @@ export class ScimUtils {
   }
 
   /**
-   * Helper: Get a nested value from an object using dot notation
+   * Coerce a mapped value to the type of the attribute at `path`. Values that
+   * cannot be coerced are reported, then kept (lenient) or dropped (strict).
+   * Attributes missing from the catalog and complex values are left alone.
+   */
+  private coerceMappedValue(
+    value: unknown,
+    path: string,
+    mapping: MappingItem,
+    resourceType: string,
+    issues: ValidationIssue[]
+  ): unknown {
+    const definition = findAttributeDefinition(
+      path,
+      resourceType === 'Group' ? 'Group' : 'User',
+      this.config?.schemaExtensions
+    );
+    if (value === undefined || value === null || !definition || definition.type === 'complex') {
+      return value;
+    }
+
+    const type = definition.type;
+    const strict = mapping.coercion === 'strict';
+    const coerce = (item: unknown, itemPath: string) => {
+      const result = coerceValue(item, type);
+      if (!result.error) {
+        return result.value;
+      }
+      issues.push({
+        path: itemPath,
+        message: `${result.error}; ${strict ? 'value dropped' : 'value kept as is'}`,
+        severity: strict ? 'error' : 'warning'
+      });
+      return strict ? undefined : item;
+    };
+
+    if (definition.multiValued && Array.isArray(value)) {
+      return value
+        .map((item, index) => coerce(item, `${path}[${index}]`))
+        .filter(item => item !== undefined);
+    }
+    return coerce(value, path);
+  }
+
+  /**
+   * Coerce each sub-attribute of a mapped multi-valued element
+   */
+  private coerceElement(
+    element: Record<string, unknown>,
+    index: number,
+    mapping: MappingItem,
+    resourceType: string,
+    issues: ValidationIssue[]
+  ): Record<string, unknown> {
+    const coerced: Record<string, unknown> = {};
+    Object.entries(element).forEach(([subAttribute, value]) => {
+      const elementIssues: ValidationIssue[] = [];
+      const result = this.coerceMappedValue(value, `${mapping.scimAttribute}.${subAttribute}`, mapping, resourceType, elementIssues);
+      // Report the element the value came from rather than the attribute
+      elementIssues.forEach(issue => issues.push({ ...issue, path: `${mapping.scimAttribute}[${index}].${subAttribute}` }));
+      if (result !== undefined) {
+        coerced[subAttribute] = result;
+      }
+    });
+    return coerced;
+  }
+
+  /**
+   * Map every element of a source array onto a SCIM multi-valued attribute
+   */
+  private transformMultiValuedToScim(
+    mapping: MappingItem,
+    sourceData: unknown,
+    scope: ExpressionScope
+  ): Record<string, unknown>[] {
+    const { subMappings, elementFilter } = mapping.multiValued;
+    const elements = this.getNestedValue(sourceData, getSourceArrayPath(mapping.sourceField));
+    
+    if (elements === undefined || elements === null) {
+      return [];
+    }
+    
+    const result: Record<string, unknown>[] = [];
+    
+    (Array.isArray(elements) ? elements : [elements]).forEach((element, index) => {
+      const elementScope = { ...scope, element, index };
+      
+      if (elementFilter) {
+        try {
+          if (!evaluateExpression(elementFilter, { ...elementScope, value: element })) {
+            return;
+          }
+        } catch (error) {
+          console.error(`Error applying element filter for ${mapping.scimAttribute}:`, error);
+          return;
+        }
+      }
+      
+      const scimElement: Record<string, unknown> = {};
+      
+      subMappings.forEach(subMapping => {
+        if (!subMapping.subAttribute) {
+          return;
+        }
+        
+        let value = subMapping.sourceField
+          ? this.getNestedValue(element, subMapping.sourceField)
+          : element;
+        
+        if (subMapping.transformation) {
+          try {
+            value = evaluateExpression(subMapping.transformation, { ...elementScope, value });
+          } catch (error) {
+            console.error(`Error applying transformation for ${mapping.scimAttribute}.${subMapping.subAttribute}:`, error);
+          }
+        }
+        
+        if (subMapping.subAttribute === 'primary' && value !== undefined) {
+          value = expressionFunctions.toBoolean(value);
+        }
+        
+        if (value !== undefined) {
+          scimElement[subMapping.subAttribute] = value;
+        }
+      });
+      
+      if (Object.keys(scimElement).length > 0) {
+        result.push(scimElement);
+      }
+    });
+    
+    return result;
+  }
+
+  /**
+   * Map a SCIM multi-valued attribute back onto a source array
+   */
+  private transformMultiValuedFromScim(mapping: MappingItem, scimData: unknown): unknown[] | undefined {
+    const scimElements = this.getNestedValue(scimData, mapping.scimAttribute);
+    
+    if (!Array.isArray(scimElements)) {
+      return undefined;
+    }
+    
+    const normalized = { elements: scimElements.map(element => (
+      element && typeof element === 'object' ? { ...element } : element
+    )) };
+    this.enforceSinglePrimary(normalized);
+    
+    return normalized.elements.map(scimElement => {
+      let element: unknown = {};
+      
+      mapping.multiValued.subMappings.forEach(subMapping => {
+        // Computed sub-attributes (e.g. a constant type) have nothing to write back
+        if (subMapping.transformation || !scimElement || typeof scimElement !== 'object') {
+          return;
+        }
+        
+        const value = scimElement[subMapping.subAttribute];
+        if (value === undefined) {
+          return;
+        }
+        
+        if (!subMapping.sourceField) {
+          element = value;
+        } else if (element && typeof element === 'object') {
+          this.setNestedValue(element, subMapping.sourceField, value);
+        }
+      });
+      
+      return element;
+    });
+  }
+
+  /**
+   * Helper: Make sure at most one element of each multi-valued attribute is primary
+   */
+  private enforceSinglePrimary(resource: Record<string, unknown>): void {
+    Object.values(resource).forEach(attribute => {
+      if (!Array.isArray(attribute)) {
+        return;
+      }
+      
+      let primarySeen = false;
+      attribute.forEach(element => {
+        if (element && typeof element === 'object' && element.primary === true) {
+          if (primarySeen) {
+            element.primary = false;
+          }
+          primarySeen = true;
+        }
+      });
+    });
+  }
+
+  /**
+   * Ids and member references are strings in SCIM (RFC 7643 §3.1), even when
+   * the upstream API numbers its records
+   */
+  private stringifyIds(resource: Record<string, unknown>): void {
+    if (resource.id !== undefined && resource.id !== null) {
+      resource.id = String(resource.id);
+    }
+    if (Array.isArray(resource.members)) {
+      resource.members = resource.members.map(member => (
+        member && typeof member === 'object' && (member as { value?: unknown }).value != null
+          ? { ...member, value: String((member as { value: unknown }).value) }
+          : member
+      ));
+    }
+  }
+
+  /**
+   * Helper: Get a nested value from an object using dot notation, optionally
+   * prefixed with a schema URN
    */
   private getNestedValue(obj: any, path: string): any {
+    // Extension attributes live in an object keyed by the schema URN
+    if (isUrnPath(path)) {
+      const { urn, names } = splitAttributePath(path);
+      const target = isCoreSchema(urn) ? obj : obj?.[urn];
+      return names.length > 0 ? this.getNestedValue(target, names.join('.')) : target;
+    }
+
     // Handle array notation like items[0].name
     if (path.includes('[')) {
       const parts = path.split(/[\[\].]+/).filter(Boolean);
@@ -225,9 +621,24 @@ export class ScimUtils {
   }
 
   /**
-   * Helper: Set a nested value in an object using dot notation
+   * Helper: Set a nested value in an object using dot notation, optionally
+   * prefixed with a schema URN
    */
   private setNestedValue(obj: any, path: string, value: any): void {
+    // Extension attributes live in an object keyed by the schema URN
+    if (isUrnPath(path)) {
+      const { urn, names } = splitAttributePath(path);
+      if (isCoreSchema(urn)) {
+        this.setNestedValue(obj, names.join('.'), value);
+      } else if (names.length === 0) {
+        obj[urn] = value;
+      } else {
+        obj[urn] = obj[urn] || {};
+        this.setNestedValue(obj[urn], names.join('.'), value);
+      }
+      return;
+    }
+
     // Handle array notation like items[0].name
     if (path.includes('[')) {
       const main = path.split('[')[0];
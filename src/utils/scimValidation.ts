@@ -0,0 +1,180 @@
+import { isUrnPath, SCIM_SCHEMA_URNS, ScimResourceType, scimUtils } from './scimUtils';
+import { getSchemaCatalog, SchemaAttribute } from '@/models/ScimSchemaCatalog';
+import { SchemaExtension } from '@/models/SchemaExtension';
+
+/**
+ * Structural checks for SCIM resources sent by clients (RFC 7643 §4),
+ * driven by the schema catalog
+ */
+
+export interface ValidationIssue {
+  // Attribute path, e.g. `emails[1].primary`; empty for the resource itself
+  path: string;
+  message: string;
+  // Warnings point at values the service provider will ignore or overwrite
+  severity: 'error' | 'warning';
+}
+
+// Common attributes set by the service provider (RFC 7643 §3.1); clients may send them but they are ignored
+const COMMON_READ_ONLY_ATTRIBUTES = ['id', 'meta'];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Whether a value has the JSON shape of a SCIM data type; coercion is up to the service provider
+const hasType = (value: unknown, type: SchemaAttribute['type']): boolean => {
+  switch (type) {
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'decimal':
+      return typeof value === 'number';
+    case 'integer':
+      return Number.isInteger(value);
+    case 'complex':
+      return isObject(value);
+    default:
+      return typeof value === 'string';
+  }
+};
+
+const TYPE_MESSAGES: Record<SchemaAttribute['type'], string> = {
+  string: 'must be a string',
+  boolean: 'must be a boolean',
+  decimal: 'must be a number',
+  integer: 'must be an integer',
+  dateTime: 'must be a date-time string',
+  reference: 'must be a string',
+  binary: 'must be a string',
+  complex: 'must be an object'
+};
+
+const isMissing = (value: unknown) => value === undefined || value === null || (typeof value === 'string' && !value.trim());
+
+// Check a value against its definition, then its sub-attributes
+const validateValue = (value: unknown, definition: SchemaAttribute, path: string, issues: ValidationIssue[]) => {
+  if (!hasType(value, definition.type)) {
+    issues.push({ path, message: TYPE_MESSAGES[definition.type], severity: 'error' });
+    return;
+  }
+  if (definition.type === 'complex' && definition.subAttributes) {
+    validateAttributes(value as Record<string, unknown>, definition.subAttributes, `${path}.`, false, issues);
+  }
+};
+
+const validateMultiValued = (value: unknown, definition: SchemaAttribute, path: string, issues: ValidationIssue[]) => {
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: 'must be an array', severity: 'error' });
+    return;
+  }
+
+  let primaryCount = 0;
+  value.forEach((element, index) => {
+    validateValue(element, definition, `${path}[${index}]`, issues);
+    if (isObject(element) && element.primary === true) {
+      primaryCount++;
+    }
+  });
+
+  if (primaryCount > 1) {
+    issues.push({ path, message: 'only one element may be primary', severity: 'error' });
+  }
+};
+
+/**
+ * Check the attributes of a resource, or of a complex value, against their
+ * schema definitions. Required attributes are only enforced at the top level:
+ * sub-attributes are rarely all sent.
+ */
+const validateAttributes = (
+  target: Record<string, unknown>,
+  definitions: SchemaAttribute[],
+  prefix: string,
+  enforceRequired: boolean,
+  issues: ValidationIssue[]
+) => {
+  definitions.forEach(definition => {
+    const path = `${prefix}${definition.name}`;
+    const value = target[definition.name];
+
+    if (isMissing(value)) {
+      if (enforceRequired && definition.required && definition.mutability !== 'readOnly') {
+        issues.push({ path, message: 'is required', severity: 'error' });
+      }
+      return;
+    }
+    if (definition.mutability === 'readOnly') {
+      issues.push({ path, message: 'is read-only and will be ignored', severity: 'warning' });
+      return;
+    }
+    if (definition.multiValued) {
+      validateMultiValued(value, definition, path, issues);
+    } else {
+      validateValue(value, definition, path, issues);
+    }
+  });
+};
+
+const validateSchemas = (resource: Record<string, unknown>, resourceType: ScimResourceType, issues: ValidationIssue[]) => {
+  const urn = SCIM_SCHEMA_URNS[resourceType];
+  if (!Array.isArray(resource.schemas) || !resource.schemas.every(schema => typeof schema === 'string')) {
+    issues.push({ path: 'schemas', message: 'must be an array of schema URIs', severity: 'error' });
+  } else {
+    if (!resource.schemas.includes(urn)) {
+      issues.push({ path: 'schemas', message: `must include ${urn}`, severity: 'error' });
+    }
+    // Extension attributes are only understood when their schema is declared
+    Object.keys(resource).filter(isUrnPath).forEach(extension => {
+      if (!isObject(resource[extension])) {
+        issues.push({ path: extension, message: 'must be an object', severity: 'error' });
+      } else if (!(resource.schemas as string[]).includes(extension)) {
+        issues.push({ path: 'schemas', message: `must include ${extension}`, severity: 'error' });
+      }
+    });
+  }
+};
+
+/**
+ * Check a resource as a client would send it to POST or PUT, against the
+ * standard schemas of its type and the declared extensions
+ */
+export const validateScimResource = (
+  resource: unknown,
+  resourceType: ScimResourceType,
+  extensions: SchemaExtension[] = scimUtils.getConfig()?.schemaExtensions || []
+): ValidationIssue[] => {
+  if (!isObject(resource)) {
+    return [{ path: '', message: 'The payload must be a JSON object', severity: 'error' }];
+  }
+
+  const issues: ValidationIssue[] = [];
+  validateSchemas(resource, resourceType, issues);
+
+  getSchemaCatalog(resourceType, extensions).forEach(schema => {
+    if (schema.urn === SCIM_SCHEMA_URNS[resourceType]) {
+      validateAttributes(resource, schema.attributes, '', true, issues);
+      return;
+    }
+    // Extension attributes are only checked when the client sends the extension
+    const extension = resource[schema.urn];
+    if (isObject(extension)) {
+      validateAttributes(extension, schema.attributes, `${schema.urn}:`, true, issues);
+    }
+  });
+
+  // Members must reference existing resources, so an empty value is never valid
+  if (resourceType === 'Group' && Array.isArray(resource.members)) {
+    resource.members.forEach((member, index) => {
+      if (isObject(member) && (typeof member.value !== 'string' || !member.value)) {
+        issues.push({ path: `members[${index}].value`, message: 'must be the id of a User or Group', severity: 'error' });
+      }
+    });
+  }
+
+  COMMON_READ_ONLY_ATTRIBUTES.forEach(attribute => {
+    if (resource[attribute] !== undefined) {
+      issues.push({ path: attribute, message: 'is read-only and will be ignored', severity: 'warning' });
+    }
+  });
+
+  return issues;
+};
@@ -0,0 +1,24 @@
+/**
+ * Browser globals the mapper modules rely on, provided for Node. Imported
+ * before anything else by the server.
+ */
+
+const entries = new Map<string, string>();
+
+// Stored configuration only lives as long as the process
+const memoryStorage: Storage = {
+  get length() {
+    return entries.size;
+  },
+  key: (index: number) => [...entries.keys()][index] ?? null,
+  getItem: (key: string) => entries.get(key) ?? null,
+  setItem: (key: string, value: string) => {
+    entries.set(key, String(value));
+  },
+  removeItem: (key: string) => {
+    entries.delete(key);
+  },
+  clear: () => entries.clear()
+};
+
+Object.defineProperty(globalThis, 'localStorage', { value: memoryStorage, configurable: true });
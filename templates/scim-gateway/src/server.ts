@@ -0,0 +1,69 @@
+import './runtime';
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { apiService } from '@/utils/apiService';
+import { scimUtils } from '@/utils/scimUtils';
+import { SCIM_BASE_PATH } from '@/utils/scimService';
+import { ScimError } from '@/utils/scimError';
+import { handleScimRequest, ScimHttpResponse } from '@/utils/scimServer';
+import { API_CONFIG, APPLICATION_ID, APPLICATION_NAME, SCIM_CONFIG } from './application';
+
+const PORT = Number(process.env.PORT) || 3000;
+
+// Token SCIM clients must present; requests are not authenticated when unset
+const BEARER_TOKEN = process.env.SCIM_BEARER_TOKEN;
+
+apiService.setConfig(API_CONFIG, APPLICATION_ID);
+scimUtils.setConfig(SCIM_CONFIG, false);
+
+const send = (res: ServerResponse, response: ScimHttpResponse) => {
+  res.writeHead(response.status, { 'Content-Type': 'application/scim+json', ...response.headers });
+  res.end(response.body === undefined ? undefined : JSON.stringify(response.body));
+};
+
+const sendError = (res: ServerResponse, error: ScimError, headers?: Record<string, string>) => {
+  send(res, { status: error.status, body: error.toResponse(), headers });
+};
+
+const readBody = (req: IncomingMessage): Promise<string> => new Promise((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  req.on('data', chunk => chunks.push(chunk));
+  req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+  req.on('error', reject);
+});
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url || '/', 'http://localhost');
+  if (url.pathname !== SCIM_BASE_PATH && !url.pathname.startsWith(`${SCIM_BASE_PATH}/`)) {
+    sendError(res, new ScimError(404, `SCIM endpoints are served under ${SCIM_BASE_PATH}`));
+    return;
+  }
+  if (BEARER_TOKEN && req.headers.authorization !== `Bearer ${BEARER_TOKEN}`) {
+    sendError(res, new ScimError(401, 'Missing or invalid bearer token'), { 'WWW-Authenticate': 'Bearer' });
+    return;
+  }
+
+  let body: unknown;
+  const text = await readBody(req);
+  if (text.trim()) {
+    try {
+      body = JSON.parse(text);
+    } catch {
+      sendError(res, new ScimError(400, 'Request body is not valid JSON', 'invalidSyntax'));
+      return;
+    }
+  }
+
+  send(res, await handleScimRequest({
+    method: req.method || 'GET',
+    path: url.pathname.slice(SCIM_BASE_PATH.length) || '/',
+    query: Object.fromEntries(url.searchParams),
+    body
+  }, APPLICATION_ID));
+});
+
+server.listen(PORT, () => {
+  console.log(`SCIM gateway for ${APPLICATION_NAME} listening on http://localhost:${PORT}${SCIM_BASE_PATH}`);
+  if (!BEARER_TOKEN) {
+    console.warn('SCIM_BEARER_TOKEN is not set: requests are accepted without authentication');
+  }
+});
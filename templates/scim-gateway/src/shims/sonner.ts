@@ -0,0 +1,11 @@
+// Console stand-in for the toast notifications the mapper shows in the browser
+const log = (level: 'log' | 'warn' | 'error') => (message: string, data?: { description?: string }) => {
+  console[level](data?.description ? `${message}: ${data.description}` : message);
+};
+
+export const toast = {
+  success: log('log'),
+  info: log('log'),
+  warning: log('warn'),
+  error: log('error')
+};